@@ -7,7 +7,7 @@ import { readFileSync } from 'fs';
 
 const pkg = JSON.parse(readFileSync('./package.json', 'utf8'));
 
-export default {
+const library = {
   input: 'src/client.ts',
   output: [
     {
@@ -70,4 +70,36 @@ export default {
       mangle: true,
     }),
   ],
-};
\ No newline at end of file
+};
+
+// Standalone Web Worker entry (see ProcessingOptions.createWorker). Parser libs
+// stay external so the consumer's bundler resolves them for the worker too.
+const worker = {
+  input: 'src/workers/importWorker.ts',
+  output: {
+    file: 'dist/importWorker.js',
+    format: 'esm',
+    sourcemap: false,
+  },
+  external: ['xlsx', 'papaparse', 'jschardet'],
+  plugins: [
+    resolve({
+      browser: true,
+      preferBuiltins: false,
+      extensions: ['.mjs', '.js', '.json', '.ts'],
+    }),
+    commonjs(),
+    typescript({
+      tsconfig: './tsconfig.lib.json',
+      declaration: false,
+      rootDir: 'src',
+    }),
+    terser({
+      format: { comments: false },
+      compress: { passes: 2 },
+      mangle: true,
+    }),
+  ],
+};
+
+export default [library, worker];
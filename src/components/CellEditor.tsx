@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { CellEditorProps, FieldConfig, FieldType } from "../types";
+
+// Native input types; everything else is edited as text
+const INPUT_TYPES: Partial<Record<FieldType, string>> = {
+  number: "number",
+  currency: "number",
+  email: "email",
+  phone: "tel",
+  url: "url",
+  time: "time",
+};
+
+// Date fields stored without an offset get the native pickers
+const inputType = (field?: FieldConfig): string => {
+  if (!field) return "text";
+  if (field.type === "date" || field.type === "datetime") {
+    const mode = field.dateOutput ?? "utc";
+    return mode === "date" ? "date" : mode === "local" ? "datetime-local" : "text";
+  }
+  return INPUT_TYPES[field.type] || "text";
+};
+
+// Stored converted (see editedValue), so a half-typed value is held until blur
+const commitsOnBlur = (field: FieldConfig | undefined, type: string): boolean =>
+  !!field &&
+  (type === "text" || type === "number") &&
+  ["date", "datetime", "currency", "json"].includes(field.type);
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const CellEditor: React.FC<CellEditorProps> = ({
+  field,
+  value,
+  disabled,
+  required,
+  allowedValues,
+  onChange,
+  onFocus,
+  onBlur,
+  title,
+  style,
+}) => {
+  const [draft, setDraft] = React.useState<string | null>(null);
+  const text = formatValue(value);
+  const cellStyle: React.CSSProperties = disabled
+    ? { ...style, color: "var(--mantine-color-gray-5)", cursor: "not-allowed" }
+    : { ...style };
+
+  // Enum options, narrowed by a conditional list when one applies
+  const enumOptions = field?.type === "enum" ? field.options || [] : undefined;
+  const options = allowedValues
+    ? allowedValues.map(
+        (v) =>
+          enumOptions?.find((o) => o.value === String(v)) || { value: String(v), label: String(v) }
+      )
+    : enumOptions;
+
+  if (options) {
+    // Keep an imported value that matches no option visible so it can be fixed
+    const isUnknown = text !== "" && !options.some((o) => o.value === text);
+    return (
+      <select
+        value={text}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={onFocus}
+        onBlur={onBlur}
+        title={title}
+        style={{ cursor: "pointer", ...cellStyle }}
+      >
+        <option value="" />
+        {isUnknown && <option value={text}>{text}</option>}
+        {options.map((o) => (
+          <option key={o.value} value={o.value}>
+            {o.label || o.value}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  const type = inputType(field);
+  const deferred = commitsOnBlur(field, type);
+  return (
+    <input
+      type={type}
+      step={type === "datetime-local" || type === "time" ? 1 : undefined}
+      value={draft ?? text}
+      disabled={disabled}
+      placeholder={required && !disabled ? "Required" : undefined}
+      onChange={(e) => {
+        if (deferred) {
+          setDraft(e.target.value);
+          return;
+        }
+        // Pickers drop ":00" seconds; keep the stored "YYYY-MM-DDTHH:MM:SS" shape
+        onChange(
+          type === "datetime-local" && e.target.value.length === 16
+            ? `${e.target.value}:00`
+            : e.target.value
+        );
+      }}
+      onKeyDown={(e) => {
+        if (deferred && e.key === "Enter") e.currentTarget.blur();
+      }}
+      onFocus={onFocus}
+      onBlur={() => {
+        if (draft !== null) {
+          onChange(draft);
+          setDraft(null);
+        }
+        onBlur?.();
+      }}
+      title={title}
+      style={cellStyle}
+    />
+  );
+};
+
+export default CellEditor;
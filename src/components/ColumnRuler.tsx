@@ -0,0 +1,136 @@
+"use client";
+
+import React, { useState } from "react";
+import { Group, Text, Button, Box, Flex, Paper, ScrollArea, Badge } from "@mantine/core";
+import { ColumnRulerProps } from "../types";
+
+const PREVIEW_LINES = 20;
+const CELL_WIDTH = 9; // px per character in the monospace preview
+
+const ColumnRuler: React.FC<ColumnRulerProps> = ({
+  lines,
+  columns,
+  fileName,
+  onConfirm,
+  onBack,
+}) => {
+  const [breaks, setBreaks] = useState<number[]>(() =>
+    Array.from(new Set([0, ...columns])).sort((a, b) => a - b)
+  );
+  const previewLines = lines.slice(0, PREVIEW_LINES);
+  const width = Math.max(1, ...previewLines.map((l) => l.length)) + 1;
+
+  // Column 0 always starts a column
+  const toggleBreak = (position: number) => {
+    if (position === 0) return;
+    setBreaks((prev) =>
+      prev.includes(position)
+        ? prev.filter((p) => p !== position)
+        : [...prev, position].sort((a, b) => a - b)
+    );
+  };
+
+  const monospace: React.CSSProperties = {
+    fontFamily: "var(--mantine-font-family-monospace)",
+    fontSize: "13px",
+    lineHeight: "20px",
+    whiteSpace: "pre",
+  };
+
+  return (
+    <Box style={{ padding: "16px", minHeight: "600px" }}>
+      {/* Header */}
+      <Flex justify="space-between" align="center" mb="md">
+        <Group>
+          <Text size="lg" fw={600} c="gray.8">
+            Define Columns
+          </Text>
+          <Text size="sm" c="gray.6">
+            {fileName ? `${fileName}: ` : ""}click the ruler to add or remove a column break
+          </Text>
+          <Badge size="sm" variant="light" color="gray">
+            {breaks.length} columns
+          </Badge>
+        </Group>
+
+        <Group gap="xs">
+          <Button variant="default" size="xs" onClick={onBack}>
+            Back
+          </Button>
+          <Button
+            size="xs"
+            radius="md"
+            variant="filled"
+            color="dark"
+            onClick={() => onConfirm(breaks)}
+          >
+            Continue
+          </Button>
+        </Group>
+      </Flex>
+
+      <Paper p="md" withBorder radius="md" style={{ height: "500px" }}>
+        <ScrollArea style={{ height: "468px" }}>
+          <Box style={{ position: "relative", width: width * CELL_WIDTH }}>
+            {/* Ruler */}
+            <Flex style={{ borderBottom: "1px solid var(--mantine-color-gray-3)" }}>
+              {Array.from({ length: width }, (_, p) => (
+                <Box
+                  key={p}
+                  onClick={() => toggleBreak(p)}
+                  style={{
+                    ...monospace,
+                    width: CELL_WIDTH,
+                    flexShrink: 0,
+                    textAlign: "center",
+                    cursor: p === 0 ? "default" : "pointer",
+                    fontSize: "10px",
+                    color: "var(--mantine-color-gray-6)",
+                    backgroundColor: breaks.includes(p)
+                      ? "var(--mantine-color-gray-2)"
+                      : undefined,
+                  }}
+                >
+                  {p % 10 === 0 ? String(p / 10 % 10) : p % 5 === 0 ? "+" : "·"}
+                </Box>
+              ))}
+            </Flex>
+
+            {/* Sample lines */}
+            <Box style={{ position: "relative" }}>
+              {previewLines.map((line, i) => (
+                <Box key={i} style={{ ...monospace, color: "var(--mantine-color-gray-8)" }}>
+                  {Array.from(line, (ch, p) => (
+                    <span
+                      key={p}
+                      style={{ display: "inline-block", width: CELL_WIDTH, textAlign: "center" }}
+                    >
+                      {ch}
+                    </span>
+                  ))}
+                </Box>
+              ))}
+              {breaks
+                .filter((p) => p > 0)
+                .map((p) => (
+                  <Box
+                    key={p}
+                    style={{
+                      position: "absolute",
+                      top: 0,
+                      bottom: 0,
+                      left: p * CELL_WIDTH,
+                      borderLeft: "1px solid var(--mantine-color-dark-4)",
+                      pointerEvents: "none",
+                    }}
+                  />
+                ))}
+            </Box>
+          </Box>
+        </ScrollArea>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ColumnRuler;
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Group, Text, Button, Paper, Select, Table, Badge, ScrollArea } from "@mantine/core";
+import { EncodingPickerProps } from "../types";
+import { TEXT_ENCODINGS } from "../utils/dataProcessing";
+
+const PREVIEW_COLUMNS = 8;
+
+const EncodingPicker: React.FC<EncodingPickerProps> = ({
+  encoding,
+  confidence,
+  onPreview,
+  onApply,
+}) => {
+  const [selected, setSelected] = useState(encoding);
+  const [preview, setPreview] = useState<string[][] | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  // A new import resets the selection
+  useEffect(() => {
+    setSelected(encoding);
+  }, [encoding]);
+
+  // Live preview of the first rows whenever another encoding is picked
+  useEffect(() => {
+    if (selected === encoding) {
+      setPreview(null);
+      setPreviewError(null);
+      return;
+    }
+    let cancelled = false;
+    onPreview(selected)
+      .then((rows) => {
+        if (cancelled) return;
+        setPreview(rows);
+        setPreviewError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setPreview(null);
+        setPreviewError(err?.message || "Preview failed");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, encoding]);
+
+  const options = TEXT_ENCODINGS.some((e) => e.value === encoding)
+    ? TEXT_ENCODINGS
+    : [{ value: encoding, label: encoding.toUpperCase() }, ...TEXT_ENCODINGS];
+
+  return (
+    <Paper withBorder radius="md" p="sm" mb="md">
+      <Group justify="space-between" align="center">
+        <Group gap="xs">
+          <Text size="sm" fw={500} c="gray.8">
+            File encoding
+          </Text>
+          <Select
+            size="xs"
+            data={options}
+            value={selected}
+            onChange={(v) => v && setSelected(v)}
+            allowDeselect={false}
+            searchable
+            comboboxProps={{ zIndex: 10050 }}
+            style={{ width: 260 }}
+          />
+          {confidence !== undefined && selected === encoding && (
+            <Badge size="sm" variant="light" color="gray">
+              detected, {Math.round(confidence * 100)}% confidence
+            </Badge>
+          )}
+        </Group>
+        {selected !== encoding && (
+          <Group gap="xs">
+            <Button variant="default" size="xs" onClick={() => setSelected(encoding)}>
+              Cancel
+            </Button>
+            <Button
+              size="xs"
+              variant="filled"
+              color="dark"
+              disabled={!!previewError}
+              onClick={() => onApply(selected)}
+            >
+              Re-read file
+            </Button>
+          </Group>
+        )}
+      </Group>
+
+      {previewError && (
+        <Text size="xs" c="red" mt="xs">
+          {previewError}
+        </Text>
+      )}
+      {preview && preview.length > 0 && (
+        <ScrollArea mt="xs">
+          <Table withTableBorder withColumnBorders style={{ fontSize: "12px" }}>
+            <Table.Tbody>
+              {preview.map((row, r) => (
+                <Table.Tr key={r}>
+                  {row.slice(0, PREVIEW_COLUMNS).map((cell, c) => (
+                    <Table.Td key={c} style={{ fontSize: "12px", whiteSpace: "nowrap" }}>
+                      {cell}
+                    </Table.Td>
+                  ))}
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      )}
+    </Paper>
+  );
+};
+
+export default EncodingPicker;
@@ -21,20 +21,62 @@ import {
   Box,
   Flex,
   Table,
+  Tabs,
+  Badge,
+  Modal,
+  TextInput,
+  Alert,
 } from "@mantine/core";
-import { IconUpload, IconEdit } from "@tabler/icons-react";
+import {
+  IconUpload,
+  IconEdit,
+  IconLink,
+  IconCloud,
+  IconAlertCircle,
+} from "@tabler/icons-react";
 import { IconTrash } from "@tabler/icons-react";
-import { FilefeedSDKProps, FilefeedWorkbookRef, DataRow } from "../types";
+import {
+  FilefeedSDKProps,
+  FilefeedWorkbookRef,
+  DataRow,
+  ReviewFilter,
+  RemoteResultState,
+  ImportedData,
+  ImportedWorksheet,
+  ImportDiagnostics,
+} from "../types";
 import { createWorkbookStore } from "../stores/workbookStore";
 import type { WorkbookStore } from "../stores/workbookStore";
 import type { StoreApi } from "zustand/vanilla";
 import { useStore } from "zustand";
 import MappingInterface from "./MappingInterface";
+import WorksheetPicker from "./WorksheetPicker";
+import HeaderRowPicker from "./HeaderRowPicker";
+import ColumnRuler from "./ColumnRuler";
+import ImportDiagnosticsPanel, { hasImportWarnings } from "./ImportDiagnosticsPanel";
+import EncodingPicker from "./EncodingPicker";
+import CellEditor from "./CellEditor";
+import ValueMappingStep from "./ValueMappingStep";
 import { Providers } from "../app/providers";
+import { resolveFieldLocales } from "../utils/localeParsing";
 import { useManualEntry } from "../hooks/useManualEntry";
 import { useDynamicRowCount } from "../hooks/useDynamicRowCount";
 import { useFileImport } from "../hooks/useFileImport";
-import { transformValue, validateFieldWithRegistry, validatePipelineConfig, mappingStateToFieldMappings } from "../utils/dataProcessing";
+import { isAbortError } from "../utils/backendClient";
+import {
+  transformValue,
+  validateFieldWithRegistry,
+  validateRow,
+  applyConditionalRules,
+  isFieldHidden,
+  isFieldRequired,
+  allowedValuesFor,
+  validatePipelineConfig,
+  mappingStateToFieldMappings,
+  matchWorksheetsToSheets,
+  applyHeaderRow,
+  inferColumnTypes,
+} from "../utils/dataProcessing";
 
 type InnerProps = FilefeedSDKProps & { store: StoreApi<WorkbookStore> };
 
@@ -42,7 +84,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
   ({ config, events, theme = "light", className, store }, ref) => {
     const [activeTab, setActiveTab] = useState<string>("import");
     const [isManualEntryMode, setIsManualEntryMode] = useState(false);
-    const [reviewFilter, setReviewFilter] = useState<"all" | "valid" | "invalid">("all");
+    const [reviewFilter, setReviewFilter] = useState<ReviewFilter>("all");
     const reviewViewportRef = useRef<HTMLDivElement | null>(null);
     const [reviewViewportHeight, setReviewViewportHeight] = useState<number>(600);
     const [reviewScrollTop, setReviewScrollTop] = useState<number>(0);
@@ -52,14 +94,20 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       currentSheet,
       importedData,
       setImportedData,
+      setSheetImportedData,
       mappingState,
       updateMapping,
       processedData,
       isLoading,
       processingProgress,
+      processingStage,
+      processingError,
+      clearProcessingError,
+      setProcessingProgress,
       setLoading,
       pipelineMappings,
       setFieldMappings,
+      setValueMapping,
       transformRegistry,
       validationRegistry,
       setProcessedRows,
@@ -70,12 +118,41 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       deleteInvalidRows,
       processOnContinue,
       cancelProcessing,
+      createOffloadSignal,
+      remoteResult,
+      setRemoteResult,
+      loadNextResultPage,
+      setRemoteResultFilter,
+      forEachResultPage,
+      setCurrentSheet,
+      getAllSheetStates,
+      sheetStates,
+      resetCurrentSheet,
       reset: resetStore,
     } = useStore(store, (s) => s);
 
     const currentSheetConfig = config.sheets?.find(
       (sheet) => sheet.slug === currentSheet
     );
+    const sheets = config.sheets || [];
+    const isMultiSheet = sheets.length > 1;
+    // Excel tabs awaiting a choice in the worksheet picker step
+    const [pendingWorksheets, setPendingWorksheets] = useState<{
+      fileName?: string;
+      worksheets: ImportedWorksheet[];
+    } | null>(null);
+    // Fixed-width file awaiting a column layout in the ruler step
+    const [pendingFixedWidth, setPendingFixedWidth] = useState<{
+      file: File;
+      lines: string[];
+      columns: number[];
+    } | null>(null);
+    // Warnings the user closed for the current import
+    const [dismissedDiagnostics, setDismissedDiagnostics] = useState<ImportDiagnostics | null>(null);
+    const [urlModalOpen, setUrlModalOpen] = useState(false);
+    const [importUrl, setImportUrl] = useState("");
+    // Step each parked sheet was on, so switching tabs returns there
+    const sheetStepsRef = useRef<Record<string, string>>({});
 
     const {
       manualEntryData,
@@ -113,6 +190,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       ref,
       () => ({
         reset: () => {
+          sheetStepsRef.current = {};
           resetStore();
           setConfig(config);
           setActiveTab("import");
@@ -127,25 +205,104 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       [config, resetStore, setConfig, events, cancelProcessing, resetManual]
     );
 
-    const { isUploading, triggerFilePicker, handleFile } = useFileImport({
+    const finishImport = (data: ImportedData) => {
+      setPendingWorksheets(null);
+      setPendingFixedWidth(null);
+      setImportedData(data);
+      // Let the user confirm a header that isn't on the first row
+      setActiveTab((data.headerRowIndex ?? 0) > 0 && data.rawPreview ? "header" : "mapping");
+      // Exit manual mode if it was active and clear manual state
+      if (isManualEntryMode) {
+        setIsManualEntryMode(false);
+        resetManual();
+      }
+      events?.onDataImported?.(data);
+    };
+
+    const handleImported = (data: ImportedData) => {
+      const worksheets = data.worksheets || [];
+      if (worksheets.length <= 1) {
+        finishImport(data);
+        return;
+      }
+      if (isMultiSheet && config.autoAssignWorksheets) {
+        const assigned = matchWorksheetsToSheets(
+          worksheets.map((w) => w.name),
+          sheets
+        );
+        for (const [slug, name] of Object.entries(assigned)) {
+          if (slug === currentSheet) continue;
+          const worksheet = worksheets.find((w) => w.name === name);
+          if (!worksheet) continue;
+          setSheetImportedData(slug, worksheet.data);
+          sheetStepsRef.current[slug] = "mapping";
+          events?.onDataImported?.(worksheet.data);
+        }
+        const own = worksheets.find((w) => w.name === assigned[currentSheet]);
+        if (own) {
+          finishImport(own.data);
+          return;
+        }
+      }
+      setPendingWorksheets({ fileName: data.fileName, worksheets });
+      setActiveTab("worksheet");
+    };
+
+    const {
+      isUploading,
+      triggerFilePicker,
+      handleDroppedFiles,
+      importFixedWidth,
+      importClipboard,
+      importFromUrl,
+      importFromProvider,
+      importFailure,
+      retryImport,
+      dismissImportFailure,
+      encodingSourceName,
+      previewEncoding,
+      reimportWithEncoding,
+    } = useFileImport({
       currentSheet: currentSheet || "",
       pipelineMappings,
       config,
-      onImported: (data) => {
-        setImportedData(data);
-        setActiveTab("mapping");
-        // Exit manual mode if it was active and clear manual state
-        if (isManualEntryMode) {
-          setIsManualEntryMode(false);
-          resetManual();
-        }
-        events?.onDataImported?.(data);
-      },
+      onImported: handleImported,
       setProcessedRows,
       setLoading,
       setActiveTab,
+      createOffloadSignal,
+      setProcessingProgress,
+      setRemoteResult,
+      onFixedWidthLayout: (file, lines, columns) => {
+        setPendingFixedWidth({ file, lines, columns });
+        setActiveTab("columns");
+      },
+      onImportError: (failure) => events?.onImportError?.(failure),
     });
 
+    // Paste spreadsheet cells on the import screen (fields keep normal paste)
+    useEffect(() => {
+      if (activeTab !== "import" || isManualEntryMode) return;
+      const onPaste = (e: ClipboardEvent) => {
+        const target = e.target as HTMLElement | null;
+        if (
+          target &&
+          (target.isContentEditable ||
+            target.tagName === "INPUT" ||
+            target.tagName === "TEXTAREA")
+        ) {
+          return;
+        }
+        const text = e.clipboardData?.getData("text/plain") || "";
+        const html = e.clipboardData?.getData("text/html") || undefined;
+        if (!text && !html) return;
+        e.preventDefault();
+        void importClipboard(text, html);
+      };
+      window.addEventListener("paste", onPaste);
+      return () => window.removeEventListener("paste", onPaste);
+    }, [activeTab, isManualEntryMode, importClipboard]);
+
     const handleMappingChange = (mapping: any) => {
       Object.entries(mapping).forEach(([sourceColumn, targetField]) => {
         updateMapping(sourceColumn, targetField as string | null);
@@ -153,6 +310,32 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       events?.onMappingChanged?.(mapping);
     };
 
+    // Enum fields with a mapped column get the value mapping step
+    const currentFieldMappings = useMemo(
+      () => pipelineMappings?.fieldMappings || mappingStateToFieldMappings(mappingState),
+      [pipelineMappings, mappingState]
+    );
+    const valueMappedFields = useMemo(
+      () =>
+        (currentSheetConfig?.fields || []).filter(
+          (f) =>
+            f.type === "enum" &&
+            (f.options || []).length > 0 &&
+            currentFieldMappings.some((m) => m.target === f.key)
+        ),
+      [currentSheetConfig, currentFieldMappings]
+    );
+
+    const continueToReview = async () => {
+      if (isChunkingPlanned) {
+        // Kick off chunked processing but don't block UI
+        void processOnContinue();
+      } else {
+        await processOnContinue();
+      }
+      setActiveTab("review");
+    };
+
     // Compute whether required mappings are satisfied and we can proceed
     const canProceedToReview = useMemo(() => {
       if (!currentSheetConfig) return false;
@@ -175,6 +358,10 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
 
     // Reset store/UI to the initial import view
     const hardResetToImport = () => {
+      sheetStepsRef.current = {};
+      setPendingWorksheets(null);
+      setPendingFixedWidth(null);
+      dismissImportFailure();
       resetStore();
       setConfig(config);
       setActiveTab("import");
@@ -183,6 +370,18 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       events?.onReset?.();
     };
 
+    // Back out of the current sheet's import; other sheets keep their work
+    const resetSheetToImport = () => {
+      delete sheetStepsRef.current[currentSheet];
+      setPendingWorksheets(null);
+      setPendingFixedWidth(null);
+      dismissImportFailure();
+      resetCurrentSheet();
+      setActiveTab("import");
+      setIsManualEntryMode(false);
+      resetManual();
+    };
+
     // Build processed rows from manual entry state (independent of file upload)
     const buildManualProcessedData = (): DataRow[] => {
       if (!currentSheetConfig) return [];
@@ -199,12 +398,19 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
         )
         .sort((a, b) => a.index - b.index);
 
+      // Manual columns are keyed by field, so infer date formats from them directly
+      const fields = resolveFieldLocales(
+        currentSheetConfig.fields,
+        entries.map((e) => e.data),
+        currentSheetConfig.fields.map((f) => ({ source: f.key, target: f.key })),
+        config.processing?.locale
+      );
       return entries.map(({ index, data }) => {
         const processed: Record<string, any> = {};
         const errors: any[] = [];
-        currentSheetConfig.fields.forEach((field) => {
+        fields.forEach((field) => {
           const raw = (data as any)[field.key];
-          const coerced = transformValue(raw, field.type);
+          const coerced = transformValue(raw, field.type, field);
           processed[field.key] = coerced;
           errors.push(
             ...validateFieldWithRegistry(
@@ -216,59 +422,142 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
             )
           );
         });
+        const checked = [
+          ...applyConditionalRules(processed, index, fields, errors),
+          ...validateRow(processed, index, currentSheetConfig.rowValidators),
+        ];
         return {
           id: `manual-row-${index}`,
           data: processed,
-          errors,
-          isValid: errors.filter((e) => e.severity === "error").length === 0,
+          errors: checked,
+          isValid: checked.filter((e) => e.severity === "error").length === 0,
         } as DataRow;
       });
     };
 
     const hasManualRows = totalRows > 0;
     const [isDragging, setIsDragging] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    // Sheets with an import that hasn't been processed yet; submit waits for them
+    const unfinishedSheets = useMemo(
+      () =>
+        sheets.filter((sheet) => {
+          if (sheet.slug === currentSheet) {
+            return (
+              !isManualEntryMode && !!importedData && !remoteResult && processedData.length === 0
+            );
+          }
+          const parked = sheetStates[sheet.slug];
+          return !!parked?.importedData && !parked.remoteResult && parked.processedData.length === 0;
+        }),
+      [sheets, currentSheet, isManualEntryMode, importedData, remoteResult, processedData, sheetStates]
+    );
 
     const handleSubmit = async () => {
+      if (isSubmitting) return;
+      if (unfinishedSheets.length > 0) {
+        setSubmitError(
+          `Finish mapping and reviewing ${unfinishedSheets
+            .map((s) => s.name)
+            .join(", ")} before submitting.`
+        );
+        return;
+      }
+      setSubmitError(null);
+      setIsSubmitting(true);
+      try {
+        await submitSheets();
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setSubmitError(`Submit failed: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      } finally {
+        setIsSubmitting(false);
+      }
+    };
+
+    const submitSheets = async () => {
       const chunkSize =
         (config?.processing?.chunkSize && config.processing.chunkSize > 0
           ? config.processing.chunkSize
           : 2000) || 2000;
 
-      const submitChunks = async (rows: DataRow[]) => {
-        if (!rows || rows.length === 0) return;
-        if (!events?.onSubmitChunk) {
-          events?.onWorkbookComplete?.(rows);
-          // Clean workbook after submit (single-shot)
-          hardResetToImport();
-          return;
+      // Gather every sheet with rows to submit. The active sheet uses its
+      // manual entry rows when in manual mode.
+      type SheetSubmission = { slug: string; rows?: DataRow[]; remote?: RemoteResultState };
+      const sheetStates = getAllSheetStates();
+      const submissions: SheetSubmission[] = [];
+      for (const sheet of config.sheets || []) {
+        if (sheet.slug === currentSheet && isManualEntryMode) {
+          if (hasManualRows) submissions.push({ slug: sheet.slug, rows: buildManualProcessedData() });
+          continue;
+        }
+        const ws = sheetStates[sheet.slug];
+        if (ws?.remoteResult) submissions.push({ slug: sheet.slug, remote: ws.remoteResult });
+        else if (ws?.processedData.length) submissions.push({ slug: sheet.slug, rows: ws.processedData });
+      }
+      if (submissions.length === 0) return;
+
+      if (!events?.onSubmitChunk) {
+        const bySlug: Record<string, DataRow[]> = {};
+        for (const sub of submissions) {
+          if (sub.remote) {
+            // Paged backend results are pulled from the server page by page
+            const all: DataRow[] = [];
+            await forEachResultPage(chunkSize, (rows) => {
+              all.push(...rows);
+            }, sub.slug);
+            bySlug[sub.slug] = all;
+          } else {
+            bySlug[sub.slug] = sub.rows || [];
+          }
         }
+        events?.onWorkbookComplete?.(Object.values(bySlug).flat(), bySlug);
+        // Clean workbook after submit (single-shot)
+        hardResetToImport();
+        return;
+      }
+
+      events?.onSubmitStart?.();
+      for (const sub of submissions) {
+        if (sub.remote) {
+          const totalChunks = Math.max(1, Math.ceil(sub.remote.summary.totalRows / chunkSize));
+          let chunkIndex = 0;
+          await forEachResultPage(chunkSize, async (rows) => {
+            await events.onSubmitChunk({ rows, chunkIndex: chunkIndex++, totalChunks, slug: sub.slug });
+            await new Promise((r) => setTimeout(r, 0));
+          }, sub.slug);
+          continue;
+        }
+        const rows = sub.rows || [];
         const totalChunks = Math.ceil(rows.length / chunkSize);
-        events?.onSubmitStart?.();
         for (let i = 0; i < rows.length; i += chunkSize) {
           const chunk = rows.slice(i, i + chunkSize);
-          await events.onSubmitChunk({ rows: chunk, chunkIndex: Math.floor(i / chunkSize), totalChunks });
+          await events.onSubmitChunk({
+            rows: chunk,
+            chunkIndex: Math.floor(i / chunkSize),
+            totalChunks,
+            slug: sub.slug,
+          });
           // Yield to keep UI responsive between chunks
           await new Promise((r) => setTimeout(r, 0));
         }
-        events?.onSubmitComplete?.();
-        // Clean workbook after submit (chunked)
-        hardResetToImport();
-      };
-
-      if (isManualEntryMode && hasManualRows) {
-        const manualRows = buildManualProcessedData();
-        await submitChunks(manualRows);
-      } else {
-        await submitChunks(processedData);
       }
+      events?.onSubmitComplete?.();
+      // Clean workbook after submit (chunked)
+      hardResetToImport();
     };
 
-    // Compute review counts and visible rows for uploaded data review
-    const allCount = processedData.length;
-    const validCount = useMemo(
+    // Compute review counts and visible rows for uploaded data review.
+    // Paged backend results take their counts from the server summary.
+    const localValidCount = useMemo(
       () => processedData.filter((r) => r.isValid).length,
       [processedData]
     );
+    const allCount = remoteResult ? remoteResult.summary.totalRows : processedData.length;
+    const validCount = remoteResult ? remoteResult.summary.validRows : localValidCount;
     const invalidCount = allCount - validCount;
     // Keep the currently edited row visible under the "Invalid" filter so it
     // doesn't disappear mid-typing when it becomes valid.
@@ -276,6 +565,8 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
     const unpinTimerRef = useRef<number | null>(null);
     const visibleProcessedRows = useMemo(() => {
       let rows = processedData as typeof processedData;
+      // Paged backend results are already filtered by the server
+      if (remoteResult) return rows;
       if (reviewFilter === "valid") rows = processedData.filter((r) => r.isValid);
       else if (reviewFilter === "invalid") rows = processedData.filter((r) => !r.isValid);
       if (reviewFilter === "invalid" && editingRowId) {
@@ -285,7 +576,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
         }
       }
       return rows;
-    }, [processedData, reviewFilter, editingRowId]);
+    }, [processedData, reviewFilter, editingRowId, remoteResult]);
 
     // Virtualization for Review table
     const REVIEW_ROW_HEIGHT = 32; // px, includes borders
@@ -301,23 +592,70 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
       return () => ro.disconnect();
     }, [reviewViewportRef]);
 
+    // Fetch the next page of backend results as the user nears the end
+    const loadMoreIfNearEnd = (el: HTMLDivElement) => {
+      const nearEnd =
+        el.scrollTop + el.clientHeight >= el.scrollHeight - REVIEW_ROW_HEIGHT * 20;
+      if (remoteResult && nearEnd) void loadNextResultPage();
+    };
+    // Keep loading while the loaded rows don't fill the viewport, since no scroll happens then
+    useEffect(() => {
+      const el = reviewViewportRef.current;
+      if (activeTab !== "review" || !el || !remoteResult?.nextCursor) return;
+      loadMoreIfNearEnd(el);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [activeTab, remoteResult?.nextCursor, processedData.length, reviewViewportHeight]);
+
     const reviewVisibleCount = Math.ceil(reviewViewportHeight / REVIEW_ROW_HEIGHT) + 8; // overscan
     const reviewStartIndex = Math.max(0, Math.floor(reviewScrollTop / REVIEW_ROW_HEIGHT) - 4);
     const reviewEndIndex = Math.min(visibleProcessedRows.length, reviewStartIndex + reviewVisibleCount);
     const reviewPaddingTop = reviewStartIndex * REVIEW_ROW_HEIGHT;
     const reviewPaddingBottom = Math.max(0, (visibleProcessedRows.length - reviewEndIndex) * REVIEW_ROW_HEIGHT);
-    const mappedFields = useMemo(
-      () => Object.entries(mappingState).filter(([_, tgt]) => tgt).map(([_, tgt]) => String(tgt)),
-      [mappingState]
-    );
+    // Rows processed by the backend arrive without a local mapping; show every
+    // sheet field in that case.
+    const mappedFields = useMemo(() => {
+      const mapped = Object.entries(mappingState)
+        .filter(([_, tgt]) => tgt)
+        .map(([_, tgt]) => String(tgt));
+      if (mapped.length === 0 && !importedData && currentSheetConfig) {
+        return currentSheetConfig.fields.map((f) => f.key);
+      }
+      return mapped;
+    }, [mappingState, importedData, currentSheetConfig]);
+    // Paged backend results stay in review while a page loads or a filter leaves no rows
+    const hasReviewData =
+      Boolean(importedData) || Boolean(remoteResult) || processedData.length > 0;
 
-    // Determine if current dataset should run chunked to avoid blocking UI
+    // Determine if current dataset should run chunked (or in a worker) to avoid blocking UI
     const isChunkingPlanned = Boolean(
-      config?.processing?.chunkSize && config.processing.chunkSize > 0
+      (config?.processing?.chunkSize && config.processing.chunkSize > 0) ||
+        config?.processing?.createWorker
     );
 
+    // Backend offload reports a stage label while it runs
+    const isProgressTracked = isChunkingPlanned || Boolean(processingStage);
+
+    const switchSheet = (slug: string) => {
+      if (!slug || slug === currentSheet) return;
+      sheetStepsRef.current[currentSheet] = activeTab;
+      if (isManualEntryMode) {
+        setIsManualEntryMode(false);
+        resetManual();
+      }
+      setEditingRowId(null);
+      setCurrentSheet(slug);
+      setActiveTab(sheetStepsRef.current[slug] || "import");
+      setReviewFilter(store.getState().remoteResult?.filter || "all");
+    };
+    const sheetRowCount = (slug: string) => {
+      if (slug === currentSheet) return remoteResult ? remoteResult.summary.totalRows : processedData.length;
+      const parked = sheetStates[slug];
+      return parked?.remoteResult ? parked.remoteResult.summary.totalRows : parked?.processedData.length || 0;
+    };
+    const submitLabel = isMultiSheet ? "Submit All Sheets" : `Submit ${currentSheetConfig?.name} Data`;
+
     const percent = Math.max(0, Math.min(100, Math.round((processingProgress || 0) * 100)));
-    const showCountLoader = isLoading && isChunkingPlanned;
+    const showCountLoader = isLoading && isProgressTracked;
 
     return (
       <Providers>
@@ -327,13 +665,141 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
           style={{ position: "relative" }}
         >
           <LoadingOverlay
-            visible={isLoading && !(activeTab === "review" && isChunkingPlanned)}
+            visible={isLoading && !(activeTab === "review" && isProgressTracked)}
             zIndex={10000}
             overlayProps={{ opacity: 0.15, blur: 1 }}
           />
 
           <Container size="xl" py="xl">
-            {activeTab === "mapping" && importedData && currentSheetConfig ? (
+            {isMultiSheet && (
+              <Tabs value={currentSheet} onChange={(v) => v && switchSheet(v)} mb="md">
+                <Tabs.List>
+                  {sheets.map((sheet) => {
+                    const count = sheetRowCount(sheet.slug);
+                    return (
+                      <Tabs.Tab
+                        key={sheet.slug}
+                        value={sheet.slug}
+                        disabled={isLoading || isUploading || isSubmitting}
+                        rightSection={
+                          count > 0 ? (
+                            <Badge size="xs" variant="light" color="gray">
+                              {count}
+                            </Badge>
+                          ) : null
+                        }
+                      >
+                        {sheet.name}
+                      </Tabs.Tab>
+                    );
+                  })}
+                </Tabs.List>
+              </Tabs>
+            )}
+            {submitError && (
+              <Alert
+                mb="md"
+                radius="md"
+                variant="light"
+                color="red"
+                icon={<IconAlertCircle size={16} />}
+                withCloseButton
+                onClose={() => setSubmitError(null)}
+              >
+                <Text size="sm" c="gray.8">
+                  {submitError}
+                </Text>
+              </Alert>
+            )}
+            {activeTab === "review" && processingError && (
+              <Alert
+                mb="md"
+                radius="md"
+                variant="light"
+                color="red"
+                icon={<IconAlertCircle size={16} />}
+                withCloseButton
+                onClose={clearProcessingError}
+              >
+                <Text size="sm" c="gray.8">
+                  {processingError}
+                </Text>
+              </Alert>
+            )}
+            {(activeTab === "import" || activeTab === "columns") &&
+              importFailure &&
+              !isManualEntryMode && (
+                <ImportDiagnosticsPanel
+                  failure={importFailure}
+                  onRetry={retryImport}
+                  onDismiss={dismissImportFailure}
+                />
+              )}
+            {activeTab === "mapping" &&
+              importedData?.diagnostics &&
+              importedData.diagnostics !== dismissedDiagnostics &&
+              hasImportWarnings(importedData.diagnostics) && (
+                <ImportDiagnosticsPanel
+                  diagnostics={importedData.diagnostics}
+                  fileName={importedData.fileName}
+                  onDismiss={() => setDismissedDiagnostics(importedData.diagnostics)}
+                />
+              )}
+            {activeTab === "mapping" &&
+              importedData?.diagnostics?.encoding &&
+              encodingSourceName === importedData.fileName && (
+                <EncodingPicker
+                  encoding={importedData.diagnostics.encoding}
+                  confidence={importedData.diagnostics.encodingConfidence}
+                  onPreview={(encoding) =>
+                    previewEncoding(encoding, importedData.diagnostics?.delimiter)
+                  }
+                  onApply={(encoding) => void reimportWithEncoding(encoding)}
+                />
+              )}
+            {activeTab === "columns" && pendingFixedWidth ? (
+              <Card shadow="sm" padding={0} radius="md" withBorder>
+                <ColumnRuler
+                  lines={pendingFixedWidth.lines}
+                  columns={pendingFixedWidth.columns}
+                  fileName={pendingFixedWidth.file.name}
+                  onConfirm={(columns) => void importFixedWidth(pendingFixedWidth.file, columns)}
+                  onBack={() => {
+                    setPendingFixedWidth(null);
+                    setActiveTab("import");
+                  }}
+                />
+              </Card>
+            ) : activeTab === "worksheet" && pendingWorksheets ? (
+              <Card shadow="sm" padding={0} radius="md" withBorder>
+                <WorksheetPicker
+                  worksheets={pendingWorksheets.worksheets}
+                  fileName={pendingWorksheets.fileName}
+                  onSelect={(worksheet) => finishImport(worksheet.data)}
+                  onBack={() => {
+                    setPendingWorksheets(null);
+                    setActiveTab("import");
+                  }}
+                />
+              </Card>
+            ) : activeTab === "header" && importedData?.rawPreview ? (
+              <Card shadow="sm" padding={0} radius="md" withBorder>
+                <HeaderRowPicker
+                  rows={importedData.rawPreview}
+                  selectedIndex={importedData.headerRowIndex ?? 0}
+                  onConfirm={(index) => {
+                    if (index !== (importedData.headerRowIndex ?? 0)) {
+                      const next = applyHeaderRow(importedData, index);
+                      setImportedData(
+                        pipelineMappings?.options?.detectTypes ? inferColumnTypes(next) : next
+                      );
+                    }
+                    setActiveTab("mapping");
+                  }}
+                  onBack={resetSheetToImport}
+                />
+              </Card>
+            ) : activeTab === "mapping" && importedData && currentSheetConfig ? (
               <Card shadow="sm" padding={0} radius="md" withBorder>
                 <MappingInterface
                   importedHeaders={importedData.headers}
@@ -341,19 +807,15 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                   mapping={mappingState}
                   onMappingChange={handleMappingChange}
                   importedData={importedData}
-                  onBack={hardResetToImport}
-                  onContinue={async () => {
-                    const useChunk = Boolean(
-                      config?.processing?.chunkSize && config.processing.chunkSize > 0
-                    );
-                    if (useChunk) {
-                      // Kick off chunked processing but don't block UI
-                      void processOnContinue();
-                    } else {
-                      await processOnContinue();
-                    }
-                    setActiveTab("review");
-                  }}
+                  onBack={resetSheetToImport}
+                  onChangeHeaderRow={
+                    importedData.rawPreview ? () => setActiveTab("header") : undefined
+                  }
+                  onContinue={() =>
+                    valueMappedFields.length > 0
+                      ? setActiveTab("values")
+                      : continueToReview()
+                  }
                   onExit={hardResetToImport}
                   fieldMappings={pipelineMappings?.fieldMappings}
                   onFieldMappingsChange={setFieldMappings}
@@ -362,7 +824,20 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                   canContinue={canProceedToReview}
                 />
               </Card>
-            ) : activeTab === "review" && importedData && currentSheetConfig ? (
+            ) : activeTab === "values" && importedData && valueMappedFields.length > 0 ? (
+              <Card shadow="sm" padding={0} radius="md" withBorder>
+                <ValueMappingStep
+                  fields={valueMappedFields}
+                  importedData={importedData}
+                  fieldMappings={currentFieldMappings}
+                  valueMappings={pipelineMappings?.valueMappings}
+                  onChange={setValueMapping}
+                  onBack={() => setActiveTab("mapping")}
+                  onContinue={() => void continueToReview()}
+                  isProcessing={isLoading}
+                />
+              </Card>
+            ) : activeTab === "review" && hasReviewData && currentSheetConfig ? (
               <Card shadow="sm" padding="md" radius="md" withBorder>
                 <Group justify="space-between" align="center">
                   <Text size="sm" c="gray.8" fw={500}>
@@ -397,9 +872,14 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                       size="xs"
                       onClick={() => {
                         cancelProcessing();
+                        setEditingRowId(null);
+                        if (!importedData) {
+                          // Offloaded rows have no local mapping to go back to
+                          resetSheetToImport();
+                          return;
+                        }
                         setProcessedRows([]);
                         setActiveTab("mapping");
-                        setEditingRowId(null);
                       }}
                       styles={{
                         root: {
@@ -417,10 +897,8 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                     <Button
                       size="xs"
                       radius="md"
-                      onClick={() => {
-                        handleSubmit();
-                      }}
-                      disabled={isLoading}
+                      onClick={() => void handleSubmit()}
+                      disabled={isLoading || isSubmitting}
                       styles={{
                         root: {
                           backgroundColor: isLoading ? "var(--mantine-color-gray-4)" : "black",
@@ -441,7 +919,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                         },
                       }}
                     >
-                      Submit {currentSheetConfig?.name} Data
+                      {submitLabel}
                     </Button>
                     <div
                       style={{
@@ -459,7 +937,11 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                       ].map((item) => (
                         <button
                           key={item.value}
-                          onClick={() => setReviewFilter(item.value as "all" | "valid" | "invalid")}
+                          onClick={() => {
+                            const next = item.value as ReviewFilter;
+                            setReviewFilter(next);
+                            if (remoteResult) void setRemoteResultFilter(next);
+                          }}
                           style={{
                             display: "flex",
                             alignItems: "center",
@@ -542,7 +1024,11 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
 
                 <div
                   ref={reviewViewportRef}
-                  onScroll={(e) => setReviewScrollTop((e.currentTarget as HTMLDivElement).scrollTop)}
+                  onScroll={(e) => {
+                    const el = e.currentTarget as HTMLDivElement;
+                    setReviewScrollTop(el.scrollTop);
+                    loadMoreIfNearEnd(el);
+                  }}
                   style={{ height: 600, overflowY: "auto" }}
                 >
                   <Table
@@ -562,36 +1048,34 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                           backgroundColor: "var(--mantine-color-gray-0)",
                         }}
                       >
-                        {Object.entries(mappingState)
-                          .filter(([_, targetField]) => targetField)
-                          .map(([_, targetField]) => {
-                            const field = currentSheetConfig.fields.find(
-                              (f) => f.key === targetField
-                            );
-                            return (
-                              <Table.Th
-                                key={String(targetField)}
-                                style={{
-                                  color: "var(--mantine-color-gray-8)",
-                                  fontWeight: 500,
-                                  fontSize: "12px",
-                                  borderBottom:
-                                    "1px solid var(--mantine-color-gray-3)",
-                                  borderRight:
-                                    "1px solid var(--mantine-color-gray-3)",
-                                  backgroundColor:
-                                    "var(--mantine-color-gray-0)",
-                                  padding: "6px 10px",
-                                  minWidth: "120px",
-                                  position: "sticky",
-                                  top: 0,
-                                  zIndex: 1,
-                                }}
-                              >
-                                {String(field?.label ?? targetField)}
-                              </Table.Th>
-                            );
-                          })}
+                        {mappedFields.map((targetField) => {
+                          const field = currentSheetConfig.fields.find(
+                            (f) => f.key === targetField
+                          );
+                          return (
+                            <Table.Th
+                              key={String(targetField)}
+                              style={{
+                                color: "var(--mantine-color-gray-8)",
+                                fontWeight: 500,
+                                fontSize: "12px",
+                                borderBottom:
+                                  "1px solid var(--mantine-color-gray-3)",
+                                borderRight:
+                                  "1px solid var(--mantine-color-gray-3)",
+                                backgroundColor:
+                                  "var(--mantine-color-gray-0)",
+                                padding: "6px 10px",
+                                minWidth: "120px",
+                                position: "sticky",
+                                top: 0,
+                                zIndex: 1,
+                              }}
+                            >
+                              {String(field?.label ?? targetField)}
+                            </Table.Th>
+                          );
+                        })}
                         <Table.Th
                           key="__actions__"
                           style={{
@@ -648,11 +1132,16 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                                       : "white",
                                   }}
                                 >
-                                  <input
-                                    type={field?.type === "number" ? "number" : "text"}
-                                    value={String(value)}
-                                    onChange={(e) =>
-                                      updateRowData(pRow.id, targetField, e.target.value)
+                                  <CellEditor
+                                    field={field}
+                                    value={value}
+                                    disabled={!!field && isFieldHidden(field, pRow.data || {})}
+                                    required={!!field && isFieldRequired(field, pRow.data || {})}
+                                    allowedValues={
+                                      field ? allowedValuesFor(field, pRow.data || {})?.values : undefined
+                                    }
+                                    onChange={(next) =>
+                                      updateRowData(pRow.id, targetField, next)
                                     }
                                     onFocus={() => {
                                       if (unpinTimerRef.current) {
@@ -730,6 +1219,11 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                       )}
                     </Table.Tbody>
                   </Table>
+                  {remoteResult?.isFetching && (
+                    <Text size="xs" c="gray.6" ta="center" py="xs">
+                      Loading more rows…
+                    </Text>
+                  )}
                 </div>
               </Card>
             ) : (
@@ -744,7 +1238,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                         size="xs"
                         variant="outline"
                         color="dark"
-                        onClick={hardResetToImport}
+                        onClick={resetSheetToImport}
                         styles={{
                           root: {
                             backgroundColor: "white",
@@ -764,8 +1258,8 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                       <Button
                         size="xs"
                         radius="md"
-                        onClick={handleSubmit}
-                        disabled={(isManualEntryMode && !hasManualRows) || isLoading}
+                        onClick={() => void handleSubmit()}
+                        disabled={(isManualEntryMode && !hasManualRows) || isLoading || isSubmitting}
                         styles={{
                           root: {
                             backgroundColor: "black",
@@ -783,7 +1277,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                           },
                         }}
                       >
-                        Submit {currentSheetConfig?.name} Data
+                        {submitLabel}
                       </Button>
                     )}
                     <div
@@ -1173,10 +1667,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                         e.preventDefault();
                         e.stopPropagation();
                         setIsDragging(false);
-                        const files = e.dataTransfer?.files;
-                        if (files && files.length > 0) {
-                          void handleFile(files[0]);
-                        }
+                        void handleDroppedFiles(Array.from(e.dataTransfer?.files || []));
                       }}
                     >
                       <Stack align="center" gap="sm">
@@ -1184,6 +1675,9 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                           <Title order={2} size="sm" fw={600} c="gray.8">
                             Drag and drop or upload a file to get started
                           </Title>
+                          <Text size="xs" c="gray.6" mt={4}>
+                            or paste cells copied from Excel or Google Sheets
+                          </Text>
                         </div>
 
                         <Stack gap="md" align="center">
@@ -1236,6 +1730,38 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                           >
                             Manually enter data
                           </Button>
+
+                          {(config.fetchUrl || config.sourceProviders) && (
+                            <Group gap="xs" justify="center">
+                              {config.fetchUrl && (
+                                <Button
+                                  size="xs"
+                                  variant="subtle"
+                                  color="dark"
+                                  leftSection={<IconLink size={15} />}
+                                  disabled={isUploading}
+                                  onClick={() => setUrlModalOpen(true)}
+                                >
+                                  Import from URL
+                                </Button>
+                              )}
+                              {Object.entries(config.sourceProviders || {}).map(
+                                ([key, provider]) => (
+                                  <Button
+                                    key={key}
+                                    size="xs"
+                                    variant="subtle"
+                                    color="dark"
+                                    leftSection={<IconCloud size={15} />}
+                                    disabled={isUploading}
+                                    onClick={() => void importFromProvider(key)}
+                                  >
+                                    {provider.label}
+                                  </Button>
+                                )
+                              )}
+                            </Group>
+                          )}
                         </Stack>
                       </Stack>
                     </Flex>
@@ -1244,7 +1770,43 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
               </Card>
             )}
 
-            {isLoading && isChunkingPlanned && (
+            <Modal
+              opened={urlModalOpen}
+              onClose={() => setUrlModalOpen(false)}
+              title={<Text size="sm" fw={600}>Import from URL</Text>}
+              centered
+              zIndex={10050}
+              overlayProps={{ opacity: 0.45, blur: 2 }}
+            >
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  const url = importUrl.trim();
+                  if (!url) return;
+                  setUrlModalOpen(false);
+                  setImportUrl("");
+                  void importFromUrl(url);
+                }}
+              >
+                <TextInput
+                  size="sm"
+                  placeholder="https://example.com/data.csv"
+                  value={importUrl}
+                  onChange={(e) => setImportUrl(e.currentTarget.value)}
+                  data-autofocus
+                />
+                <Group justify="flex-end" mt="md" gap="xs">
+                  <Button variant="default" size="xs" onClick={() => setUrlModalOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" size="xs" color="dark" disabled={!importUrl.trim()}>
+                    Import
+                  </Button>
+                </Group>
+              </form>
+            </Modal>
+
+            {isLoading && isProgressTracked && (
               <div
                 style={{
                   position: "absolute",
@@ -1263,7 +1825,7 @@ const FilefeedWorkbookInner = forwardRef<FilefeedWorkbookRef, InnerProps>(
                   textAlign: "center",
                 }}
               >
-                Processing data… {percent}%
+                {processingStage || "Processing data"}… {percent}%
               </div>
             )}
 
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useState } from "react";
+import { Group, Text, Button, Box, Flex, Paper, ScrollArea, Table } from "@mantine/core";
+import { HeaderRowPickerProps } from "../types";
+
+const PREVIEW_COLUMNS = 12;
+
+const HeaderRowPicker: React.FC<HeaderRowPickerProps> = ({
+  rows,
+  selectedIndex,
+  onConfirm,
+  onBack,
+}) => {
+  const [headerIndex, setHeaderIndex] = useState(selectedIndex);
+  const columnCount = Math.min(
+    PREVIEW_COLUMNS,
+    Math.max(1, ...rows.map((r) => (r || []).length))
+  );
+
+  return (
+    <Box style={{ padding: "16px", minHeight: "600px" }}>
+      {/* Header */}
+      <Flex justify="space-between" align="center" mb="md">
+        <Group>
+          <Text size="lg" fw={600} c="gray.8">
+            Select Header Row
+          </Text>
+          <Text size="sm" c="gray.6">
+            Click the row that contains your column names
+          </Text>
+        </Group>
+
+        <Group gap="xs">
+          <Button variant="default" size="xs" onClick={onBack}>
+            Back
+          </Button>
+          <Button
+            size="xs"
+            radius="md"
+            variant="filled"
+            color="dark"
+            onClick={() => onConfirm(headerIndex)}
+          >
+            Continue
+          </Button>
+        </Group>
+      </Flex>
+
+      <Paper p="md" withBorder radius="md" style={{ height: "500px" }}>
+        <ScrollArea style={{ height: "468px" }}>
+          <Table withTableBorder withColumnBorders style={{ fontSize: "12px" }}>
+            <Table.Tbody>
+              {rows.map((row, rowIndex) => {
+                const isHeader = rowIndex === headerIndex;
+                const isAbove = rowIndex < headerIndex;
+                return (
+                  <Table.Tr
+                    key={rowIndex}
+                    onClick={() => setHeaderIndex(rowIndex)}
+                    style={{
+                      cursor: "pointer",
+                      backgroundColor: isHeader
+                        ? "var(--mantine-color-gray-2)"
+                        : "white",
+                      fontWeight: isHeader ? 600 : 400,
+                      color: isAbove
+                        ? "var(--mantine-color-gray-5)"
+                        : "var(--mantine-color-gray-8)",
+                      textDecoration: isAbove ? "line-through" : "none",
+                    }}
+                  >
+                    <Table.Td
+                      style={{
+                        width: 48,
+                        fontSize: "11px",
+                        color: "var(--mantine-color-gray-6)",
+                        backgroundColor: "var(--mantine-color-gray-0)",
+                      }}
+                    >
+                      {rowIndex + 1}
+                    </Table.Td>
+                    {Array.from({ length: columnCount }, (_, col) => (
+                      <Table.Td key={col} style={{ fontSize: "12px", whiteSpace: "nowrap" }}>
+                        {String((row || [])[col] ?? "")}
+                      </Table.Td>
+                    ))}
+                  </Table.Tr>
+                );
+              })}
+            </Table.Tbody>
+          </Table>
+        </ScrollArea>
+      </Paper>
+    </Box>
+  );
+};
+
+export default HeaderRowPicker;
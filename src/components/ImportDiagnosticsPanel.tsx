@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { Alert, Group, Text, Button, Stack, List } from "@mantine/core";
+import { IconAlertCircle, IconAlertTriangle } from "@tabler/icons-react";
+import { ImportDiagnostics, ImportDiagnosticsPanelProps } from "../types";
+
+const LISTED_MISMATCHES = 10;
+const LOW_ENCODING_CONFIDENCE = 0.5;
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ",": "Comma",
+  "\t": "Tab",
+  "|": "Pipe",
+  ";": "Semicolon",
+};
+
+// Whether a successful import has anything worth showing the user
+export const hasImportWarnings = (d?: ImportDiagnostics): boolean =>
+  !!d &&
+  ((d.columnMismatchCount || 0) > 0 ||
+    (d.warnings || []).length > 0 ||
+    (!!d.encoding && (d.encodingConfidence ?? 1) < LOW_ENCODING_CONFIDENCE));
+
+const ImportDiagnosticsPanel: React.FC<ImportDiagnosticsPanelProps> = ({
+  failure,
+  diagnostics,
+  fileName,
+  onRetry,
+  onDismiss,
+}) => {
+  const d = failure?.diagnostics || diagnostics;
+  const name = failure?.fileName || fileName;
+  const mismatches = d?.columnMismatches || [];
+  const mismatchCount = d?.columnMismatchCount || mismatches.length;
+  const lowConfidence = (d?.encodingConfidence ?? 1) < LOW_ENCODING_CONFIDENCE;
+
+  return (
+    <Alert
+      mb="md"
+      radius="md"
+      variant="light"
+      color={failure ? "red" : "yellow"}
+      icon={failure ? <IconAlertCircle size={16} /> : <IconAlertTriangle size={16} />}
+      title={
+        <Text size="sm" fw={600}>
+          {failure ? "Import failed" : "Imported with warnings"}
+          {name ? `: ${name}` : ""}
+        </Text>
+      }
+    >
+      <Stack gap="xs">
+        {failure && (
+          <Text size="sm" c="gray.8">
+            {failure.message}
+          </Text>
+        )}
+
+        {d && (d.encoding || d.delimiter) && (
+          <Text size="xs" c="gray.7">
+            {d.encoding &&
+              `Encoding: ${d.encoding.toUpperCase()}${
+                d.encodingConfidence !== undefined
+                  ? ` (${Math.round(d.encodingConfidence * 100)}% confidence)`
+                  : ""
+              }`}
+            {d.encoding && d.delimiter ? " · " : ""}
+            {d.delimiter && `Delimiter: ${DELIMITER_NAMES[d.delimiter] || `"${d.delimiter}"`}`}
+          </Text>
+        )}
+        {d?.encoding && lowConfidence && (
+          <Text size="xs" c="gray.7">
+            The encoding could not be detected reliably; accented characters may look wrong.
+          </Text>
+        )}
+
+        {mismatchCount > 0 && (
+          <div>
+            <Text size="xs" c="gray.8" fw={500}>
+              {mismatchCount} {mismatchCount === 1 ? "row has" : "rows have"} a different
+              number of columns than the header
+            </Text>
+            <List size="xs" c="gray.7" mt={4}>
+              {mismatches.slice(0, LISTED_MISMATCHES).map((m) => (
+                <List.Item key={m.row}>
+                  Row {m.row}: {m.actual} {m.actual > m.expected ? "(too many)" : "(too few)"},
+                  expected {m.expected}
+                </List.Item>
+              ))}
+            </List>
+            {mismatchCount > LISTED_MISMATCHES && (
+              <Text size="xs" c="gray.6" mt={4}>
+                and {mismatchCount - LISTED_MISMATCHES} more
+              </Text>
+            )}
+          </div>
+        )}
+
+        {(d?.warnings || []).length > 0 && (
+          <List size="xs" c="gray.7">
+            {d.warnings.map((w) => (
+              <List.Item key={w}>{w}</List.Item>
+            ))}
+          </List>
+        )}
+
+        {(onRetry || onDismiss) && (
+          <Group gap="xs" mt={4}>
+            {onRetry && (
+              <Button size="xs" variant="filled" color="dark" onClick={onRetry}>
+                Retry
+              </Button>
+            )}
+            {onDismiss && (
+              <Button size="xs" variant="default" onClick={onDismiss}>
+                Dismiss
+              </Button>
+            )}
+          </Group>
+        )}
+      </Stack>
+    </Alert>
+  );
+};
+
+export default ImportDiagnosticsPanel;
@@ -39,6 +39,7 @@ const MappingInterface: React.FC<MappingInterfaceProps> = ({
   transformRegistry,
   isProcessing,
   canContinue,
+  onChangeHeaderRow,
 }) => {
   const [hoveredSource, setHoveredSource] = useState<string | null>(null);
   const [hoveredTarget, setHoveredTarget] = useState<string | null>(null);
@@ -151,6 +152,11 @@ const MappingInterface: React.FC<MappingInterfaceProps> = ({
           <Button variant="default" size="xs" onClick={onBack}>
             Back
           </Button>
+          {onChangeHeaderRow && (
+            <Button variant="default" size="xs" onClick={onChangeHeaderRow}>
+              Header row
+            </Button>
+          )}
           {isProcessing && (
             <Group gap="xs">
               <Loader size="xs" color="gray" />
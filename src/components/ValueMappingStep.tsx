@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useMemo } from "react";
+import {
+  Group,
+  Text,
+  Stack,
+  Button,
+  Box,
+  Flex,
+  Paper,
+  ScrollArea,
+  Table,
+  Badge,
+  Select,
+} from "@mantine/core";
+import { ValueMappingStepProps } from "../types";
+import { getDistinctValues, suggestValueMappings } from "../utils/dataProcessing";
+
+const ValueMappingStep: React.FC<ValueMappingStepProps> = ({
+  fields,
+  importedData,
+  fieldMappings,
+  valueMappings,
+  onChange,
+  onBack,
+  onContinue,
+  isProcessing,
+}) => {
+  const sections = useMemo(
+    () =>
+      fields
+        .map((field) => {
+          const source = fieldMappings.find((m) => m.target === field.key)?.source;
+          return source
+            ? { field, source, values: getDistinctValues(importedData.rows, source) }
+            : null;
+        })
+        .filter((s): s is NonNullable<typeof s> => !!s),
+    [fields, fieldMappings, importedData]
+  );
+
+  // Seed fields that have no saved map with fuzzy suggestions
+  useEffect(() => {
+    for (const { field, values } of sections) {
+      if (valueMappings?.[field.key]) continue;
+      onChange(
+        field.key,
+        suggestValueMappings(
+          values.map((v) => v.value),
+          field.options || []
+        )
+      );
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sections]);
+
+  const unmappedCount = sections.reduce(
+    (n, { field, values }) =>
+      n + values.filter((v) => !valueMappings?.[field.key]?.[v.value]).length,
+    0
+  );
+
+  return (
+    <Box style={{ padding: "16px", minHeight: "600px" }}>
+      {/* Header */}
+      <Flex justify="space-between" align="center" mb="md">
+        <Group>
+          <Text size="lg" fw={600} c="gray.8">
+            Map Values
+          </Text>
+          <Text size="sm" c="gray.6">
+            Match the values in your file to the allowed options
+          </Text>
+          {unmappedCount > 0 && (
+            <Badge size="sm" variant="light" color="orange">
+              {unmappedCount} unmatched
+            </Badge>
+          )}
+        </Group>
+
+        <Group gap="xs">
+          <Button variant="default" size="xs" onClick={onBack}>
+            Back
+          </Button>
+          <Button
+            size="xs"
+            radius="md"
+            variant="filled"
+            color="dark"
+            loading={isProcessing}
+            onClick={onContinue}
+          >
+            Continue
+          </Button>
+        </Group>
+      </Flex>
+
+      <Paper p="md" withBorder radius="md" style={{ height: "500px" }}>
+        <ScrollArea style={{ height: "468px" }}>
+          <Stack gap="lg">
+            {sections.map(({ field, source, values }) => {
+              const map = valueMappings?.[field.key] || {};
+              const options = (field.options || []).map((o) => ({
+                value: o.value,
+                label: o.label || o.value,
+              }));
+              return (
+                <Box key={field.key}>
+                  <Group gap="xs" mb="xs">
+                    <Text size="sm" fw={600} c="gray.8">
+                      {field.label}
+                    </Text>
+                    <Text size="xs" c="gray.6">
+                      from “{source}”
+                    </Text>
+                    <Badge size="xs" variant="light" color="gray">
+                      {values.length} values
+                    </Badge>
+                  </Group>
+                  <Table withTableBorder withColumnBorders style={{ fontSize: "12px" }}>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th style={{ fontSize: "12px" }}>Value in file</Table.Th>
+                        <Table.Th style={{ fontSize: "12px", width: 80 }}>Rows</Table.Th>
+                        <Table.Th style={{ fontSize: "12px", width: 260 }}>Maps to</Table.Th>
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {values.map(({ value, count }) => (
+                        <Table.Tr key={value}>
+                          <Table.Td style={{ fontSize: "12px" }}>{value}</Table.Td>
+                          <Table.Td style={{ fontSize: "12px", color: "var(--mantine-color-gray-6)" }}>
+                            {count}
+                          </Table.Td>
+                          <Table.Td style={{ padding: "4px 8px" }}>
+                            <Select
+                              placeholder="Keep as is"
+                              value={map[value] ?? null}
+                              onChange={(next) => {
+                                const updated = { ...map };
+                                if (next) updated[value] = next;
+                                else delete updated[value];
+                                onChange(field.key, updated);
+                              }}
+                              data={options}
+                              size="xs"
+                              clearable
+                              searchable
+                            />
+                          </Table.Td>
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                </Box>
+              );
+            })}
+          </Stack>
+        </ScrollArea>
+      </Paper>
+    </Box>
+  );
+};
+
+export default ValueMappingStep;
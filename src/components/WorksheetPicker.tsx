@@ -0,0 +1,158 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  Card,
+  Group,
+  Text,
+  Stack,
+  Button,
+  Box,
+  Flex,
+  Paper,
+  ScrollArea,
+  Table,
+  Badge,
+} from "@mantine/core";
+import { IconTable } from "@tabler/icons-react";
+import { WorksheetPickerProps } from "../types";
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 8;
+
+const WorksheetPicker: React.FC<WorksheetPickerProps> = ({
+  worksheets,
+  fileName,
+  onSelect,
+  onBack,
+}) => {
+  const [selectedName, setSelectedName] = useState<string>(
+    worksheets[0]?.name ?? ""
+  );
+  const selected = worksheets.find((w) => w.name === selectedName);
+  const previewHeaders = (selected?.data.headers || []).slice(0, PREVIEW_COLUMNS);
+  const previewRows = (selected?.data.rows || []).slice(0, PREVIEW_ROWS);
+
+  return (
+    <Box style={{ padding: "16px", minHeight: "600px" }}>
+      {/* Header */}
+      <Flex justify="space-between" align="center" mb="md">
+        <Group>
+          <Text size="lg" fw={600} c="gray.8">
+            Select Worksheet
+          </Text>
+          {fileName && (
+            <Text size="sm" c="gray.6">
+              {fileName} has {worksheets.length} tabs
+            </Text>
+          )}
+        </Group>
+
+        <Group gap="xs">
+          <Button variant="default" size="xs" onClick={onBack}>
+            Back
+          </Button>
+          <Button
+            size="xs"
+            radius="md"
+            variant="filled"
+            color="dark"
+            disabled={!selected}
+            onClick={() => selected && onSelect(selected)}
+          >
+            Continue
+          </Button>
+        </Group>
+      </Flex>
+
+      <Flex gap="md" style={{ minHeight: "500px" }}>
+        {/* Left Side - Worksheet list */}
+        <Box style={{ flex: 1, maxWidth: 320 }}>
+          <Paper p="md" withBorder radius="md" style={{ height: "500px" }}>
+            <Text size="sm" fw={600} c="gray.8" mb="md">
+              Worksheets
+            </Text>
+            <ScrollArea style={{ height: "440px" }}>
+              <Stack gap="xs">
+                {worksheets.map((worksheet) => {
+                  const isSelected = worksheet.name === selectedName;
+                  return (
+                    <Card
+                      key={worksheet.name}
+                      p="sm"
+                      radius="md"
+                      withBorder
+                      onClick={() => setSelectedName(worksheet.name)}
+                      onDoubleClick={() => onSelect(worksheet)}
+                      style={{
+                        cursor: "pointer",
+                        borderColor: isSelected
+                          ? "var(--mantine-color-dark-6)"
+                          : undefined,
+                        backgroundColor: isSelected
+                          ? "var(--mantine-color-gray-0)"
+                          : "white",
+                        transition: "all 0.2s ease",
+                      }}
+                    >
+                      <Flex align="center" gap="sm">
+                        <IconTable size={16} color="gray" />
+                        <Text size="sm" fw={500} c="gray.8" style={{ flex: 1 }}>
+                          {worksheet.name}
+                        </Text>
+                        <Badge size="sm" variant="light" color="gray">
+                          {worksheet.data.rows.length} rows
+                        </Badge>
+                      </Flex>
+                    </Card>
+                  );
+                })}
+              </Stack>
+            </ScrollArea>
+          </Paper>
+        </Box>
+
+        {/* Right Side - Preview */}
+        <Box style={{ flex: 2, minWidth: 0 }}>
+          <Paper p="md" withBorder radius="md" style={{ height: "500px" }}>
+            <Text size="sm" fw={600} c="gray.8" mb="md">
+              Preview{selected ? `: ${selected.name}` : ""}
+            </Text>
+            <ScrollArea style={{ height: "440px" }}>
+              {previewHeaders.length > 0 ? (
+                <Table withTableBorder withColumnBorders style={{ fontSize: "12px" }}>
+                  <Table.Thead>
+                    <Table.Tr style={{ backgroundColor: "var(--mantine-color-gray-0)" }}>
+                      {previewHeaders.map((h, i) => (
+                        <Table.Th key={`${h}-${i}`} style={{ fontSize: "12px", fontWeight: 500 }}>
+                          {String(h ?? "")}
+                        </Table.Th>
+                      ))}
+                    </Table.Tr>
+                  </Table.Thead>
+                  <Table.Tbody>
+                    {previewRows.map((row, r) => (
+                      <Table.Tr key={r}>
+                        {previewHeaders.map((h, i) => (
+                          <Table.Td key={`${h}-${i}`} style={{ fontSize: "12px" }}>
+                            {String(row[h] ?? "")}
+                          </Table.Td>
+                        ))}
+                      </Table.Tr>
+                    ))}
+                  </Table.Tbody>
+                </Table>
+              ) : (
+                <Text size="sm" c="gray.5" style={{ fontStyle: "italic" }}>
+                  No data available for this worksheet
+                </Text>
+              )}
+            </ScrollArea>
+          </Paper>
+        </Box>
+      </Flex>
+    </Box>
+  );
+};
+
+export default WorksheetPicker;
@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useFileImport } from "./useFileImport";
+import { createStaticSourceProvider } from "../utils/sourceProviders";
+import type { CreateWorkbookConfig, ImportedData, SourceProvider } from "../types";
+
+// Reads any .xml file as one row naming the file, so no real parsing is involved
+const xmlParser = {
+  extensions: [".xml"],
+  parse: vi.fn(
+    async (file: File): Promise<ImportedData> => ({
+      headers: ["file"],
+      rows: [{ file: file.name }],
+      fileName: file.name,
+    })
+  ),
+};
+
+const renderImport = (sourceProviders: Record<string, SourceProvider>) => {
+  const config: CreateWorkbookConfig = {
+    name: "Test",
+    sheets: [{ name: "People", slug: "people", fields: [] }],
+    parserRegistry: { xml: xmlParser },
+    sourceProviders,
+  };
+  const onImported = vi.fn();
+  const onImportError = vi.fn();
+  const { result } = renderHook(() =>
+    useFileImport({
+      currentSheet: "people",
+      config,
+      onImported,
+      setProcessedRows: vi.fn(),
+      setLoading: vi.fn(),
+      setActiveTab: vi.fn(),
+      onImportError,
+    })
+  );
+  return { result, onImported, onImportError };
+};
+
+describe("importFromProvider", () => {
+  it("imports the file a static provider returns", async () => {
+    const blob = new Blob(["<people/>"], { type: "application/xml" });
+    const { result, onImported, onImportError } = renderImport({
+      drive: createStaticSourceProvider("Google Drive", blob, "people.xml"),
+    });
+
+    await act(() => result.current.importFromProvider("drive"));
+
+    expect(onImported).toHaveBeenCalledWith(
+      expect.objectContaining({ fileName: "people.xml", rows: [{ file: "people.xml" }] })
+    );
+    expect(onImportError).not.toHaveBeenCalled();
+    expect(result.current.importFailure).toBeNull();
+    expect(result.current.isUploading).toBe(false);
+  });
+
+  it("reports a provider error and retries the pick", async () => {
+    const pick = vi
+      .fn<SourceProvider["pick"]>()
+      .mockRejectedValueOnce(new Error("Drive is unavailable"))
+      .mockResolvedValueOnce(new File(["<people/>"], "people.xml"));
+    const { result, onImported, onImportError } = renderImport({
+      drive: { label: "Google Drive", pick },
+    });
+
+    await act(() => result.current.importFromProvider("drive"));
+
+    expect(pick).toHaveBeenCalledWith(expect.objectContaining({ sheetSlug: "people" }));
+    expect(onImported).not.toHaveBeenCalled();
+    expect(result.current.importFailure).toEqual({
+      message: "Drive is unavailable",
+      fileName: "drive-import",
+      diagnostics: undefined,
+    });
+    expect(onImportError).toHaveBeenCalledWith(result.current.importFailure);
+
+    await act(async () => {
+      result.current.retryImport();
+      await vi.waitFor(() => expect(onImported).toHaveBeenCalled());
+    });
+    expect(pick).toHaveBeenCalledTimes(2);
+    expect(result.current.importFailure).toBeNull();
+  });
+});
@@ -1,10 +1,20 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import type {
   CreateWorkbookConfig,
   PipelineMappings,
+  PipelineOptions,
   DataRow,
   ImportedData,
+  ImportFailure,
+  ResultSummary,
 } from "../types";
+import {
+  isAbortError,
+  offloadAndProcessFile,
+  shouldOffloadFile,
+} from "../utils/backendClient";
+import { buildAcceptList, isAcceptedFile, resolveParser } from "../utils/parserRegistry";
+import { fileNameFromUrl, toImportFile } from "../utils/sourceProviders";
 
 interface UseFileImportArgs {
   currentSheet: string;
@@ -14,6 +24,12 @@ interface UseFileImportArgs {
   setProcessedRows: (rows: DataRow[]) => void;
   setLoading: (v: boolean) => void;
   setActiveTab: (tab: string) => void;
+  createOffloadSignal?: () => AbortSignal;
+  setProcessingProgress?: (progress: number, stage?: string) => void;
+  setRemoteResult?: (jobId: string, summary: ResultSummary) => Promise<void>;
+  // Fixed-width file without a configured layout; the caller asks for columns
+  onFixedWidthLayout?: (file: File, lines: string[], suggested: number[]) => void;
+  onImportError?: (failure: ImportFailure) => void;
 }
 
 export function useFileImport({
@@ -24,28 +40,276 @@ export function useFileImport({
   setProcessedRows,
   setLoading,
   setActiveTab,
+  createOffloadSignal,
+  setProcessingProgress,
+  setRemoteResult,
+  onFixedWidthLayout,
+  onImportError,
 }: UseFileImportArgs) {
   const [isUploading, setIsUploading] = useState(false);
+  const [importFailure, setImportFailure] = useState<ImportFailure | null>(null);
+  // Re-runs the last failed attempt (file parse or source fetch)
+  const retryRef = useRef<(() => Promise<void>) | null>(null);
+  // Last imported text file and how to parse it again (encoding override)
+  const [textSource, setTextSource] = useState<{
+    file: File;
+    parse: (options?: PipelineOptions) => Promise<ImportedData>;
+  } | null>(null);
+
+  const reportFailure = (error: any, fileName: string | undefined, retry: () => Promise<void>) => {
+    const failure: ImportFailure = {
+      message: error?.message || String(error),
+      fileName,
+      diagnostics: error?.diagnostics,
+    };
+    retryRef.current = retry;
+    setImportFailure(failure);
+    onImportError?.(failure);
+  };
+
+  // Large files go through the app owner's backend; rows come back already
+  // mapped and validated, so we skip mapping and land directly in review.
+  const offloadFile = async (file: File) => {
+    setLoading(true);
+    let completed = false;
+    try {
+      const result = await offloadAndProcessFile(
+        file,
+        {
+          sheetSlug: currentSheet,
+          pipelineMappings,
+          workbook: config,
+          signal: createOffloadSignal?.(),
+        },
+        (progress) => {
+          setProcessingProgress?.(progress.fraction ?? 0, progress.stage);
+          // Show partial results in review while the job keeps running
+          if (progress.partialRows?.length) {
+            setProcessedRows(progress.partialRows);
+            setActiveTab("review");
+          }
+        }
+      );
+      if (result.paged && result.summary && setRemoteResult) {
+        // Review pulls rows from the server page by page
+        await setRemoteResult(result.jobId, result.summary);
+      } else {
+        setProcessedRows(result.rows);
+      }
+      setActiveTab("review");
+      completed = true;
+    } finally {
+      setProcessingProgress?.(completed ? 1 : 0);
+      setLoading(false);
+    }
+  };
+
+  // Excel decoding blocks for seconds on large workbooks; use the worker when configured
+  const parseExcelOffThread = async (file: File): Promise<ImportedData> => {
+    const options = pipelineMappings?.options;
+    const createWorker = config.processing?.createWorker;
+    if (!createWorker) {
+      const { parseExcel } = await import("../utils/dataProcessing");
+      return parseExcel(file, options);
+    }
+    const { parseExcelInWorker } = await import("../utils/importWorkerClient");
+    setLoading(true);
+    setProcessingProgress?.(0, "Reading workbook");
+    try {
+      return await parseExcelInWorker(
+        createWorker,
+        file,
+        options,
+        (fraction) => setProcessingProgress?.(fraction, "Reading workbook"),
+        createOffloadSignal?.()
+      );
+    } finally {
+      setProcessingProgress?.(0);
+      setLoading(false);
+    }
+  };
 
   const handleFile = async (file: File) => {
+    setImportFailure(null);
+    try {
+      setIsUploading(true);
+      if (shouldOffloadFile(file, config)) {
+        await offloadFile(file);
+        return;
+      }
+      const { detectFileFormat, parseCSV, parseFixedWidth, parseJSON } = await import(
+        "../utils/dataProcessing"
+      );
+      const options = pipelineMappings?.options;
+      const custom = resolveParser(file, config.parserRegistry);
+      if (custom) {
+        const data = await custom.parse(file, options);
+        setTextSource(null);
+        onImported(data);
+        return;
+      }
+      const layout = config.sheets?.find((s) => s.slug === currentSheet)?.fixedWidthColumns;
+      const format = await detectFileFormat(file);
+      let parse: (opts?: PipelineOptions) => Promise<ImportedData>;
+      if (format.kind === "excel") {
+        const data = await parseExcelOffThread(file);
+        setTextSource(null);
+        onImported(data);
+        return;
+      }
+      if (format.kind === "json") {
+        parse = (opts) => parseJSON(file, opts);
+      } else if (format.kind === "fixed-width" && !options?.delimiter) {
+        // The sheet's configured layout applies only to files sniffed as fixed-width
+        if (!layout?.length && onFixedWidthLayout) {
+          onFixedWidthLayout(file, format.sampleLines, format.columns);
+          return;
+        }
+        const columns = layout?.length ? layout : format.columns;
+        parse = (opts) => parseFixedWidth(file, columns, opts);
+      } else {
+        const delimiter = format.kind === "delimited" ? format.delimiter : undefined;
+        parse = (opts) => parseCSV(file, { ...opts, delimiter: opts?.delimiter || delimiter });
+      }
+      const data = await parse(options);
+      setTextSource({ file, parse });
+      onImported(data);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      reportFailure(error, file.name, () => handleFile(file));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Fetch a file through a host-supplied function (URL import, source providers)
+  const importFromSource = async (
+    fetchSource: (signal?: AbortSignal) => Promise<File | Blob | null>,
+    fallbackName: string
+  ) => {
+    let file: File | null = null;
+    setImportFailure(null);
+    try {
+      setIsUploading(true);
+      const source = await fetchSource(createOffloadSignal?.());
+      if (source) file = toImportFile(source, fallbackName);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      reportFailure(error, fallbackName, () => importFromSource(fetchSource, fallbackName));
+    } finally {
+      setIsUploading(false);
+    }
+    if (file) await handleFile(file);
+  };
+
+  const importFromUrl = (url: string) =>
+    config.fetchUrl
+      ? importFromSource((signal) => config.fetchUrl(url, signal), fileNameFromUrl(url))
+      : Promise.resolve();
+
+  const importFromProvider = (key: string) => {
+    const provider = config.sourceProviders?.[key];
+    if (!provider) return Promise.resolve();
+    return importFromSource(
+      (signal) => provider.pick({ sheetSlug: currentSheet, signal }),
+      `${key}-import`
+    );
+  };
+
+  // Cells copied from a spreadsheet; without text (retry), the clipboard is read
+  // again. Returns false when nothing usable was pasted.
+  const importClipboard = async (text?: string, html?: string) => {
+    setImportFailure(null);
+    try {
+      if (text === undefined && !navigator.clipboard?.readText) {
+        throw new Error("This browser can't read the clipboard; paste the cells with Ctrl+V");
+      }
+      const pasted = text ?? (await navigator.clipboard.readText());
+      const { parseClipboardData } = await import("../utils/dataProcessing");
+      const data = parseClipboardData(pasted, html, pipelineMappings?.options);
+      if (!data) throw new Error("The pasted data has no cells to import");
+      setTextSource(null);
+      onImported(data);
+      return true;
+    } catch (error) {
+      reportFailure(error, "Pasted data", async () => {
+        await importClipboard();
+      });
+      return false;
+    }
+  };
+
+  // Parse a fixed-width file once its column layout has been picked
+  const importFixedWidth = async (file: File, columns: number[]) => {
+    setImportFailure(null);
     try {
       setIsUploading(true);
-      const { parseCSV, parseExcel } = await import("../utils/dataProcessing");
-      const data = file.name.toLowerCase().endsWith(".csv")
-        ? await parseCSV(file)
-        : await parseExcel(file);
+      const { parseFixedWidth } = await import("../utils/dataProcessing");
+      const parse = (opts?: PipelineOptions) => parseFixedWidth(file, columns, opts);
+      const data = await parse(pipelineMappings?.options);
+      setTextSource({ file, parse });
       onImported(data);
     } catch (error) {
-      console.error("Error processing file:", error);
+      reportFailure(error, file.name, () => importFixedWidth(file, columns));
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Decode the last text file with another encoding
+  const previewEncoding = async (encoding: string, delimiter?: string) => {
+    if (!textSource) return [];
+    const { previewTextFile } = await import("../utils/dataProcessing");
+    return previewTextFile(textSource.file, encoding, delimiter);
+  };
+
+  const reimportWithEncoding = async (encoding: string) => {
+    if (!textSource) return;
+    const { file, parse } = textSource;
+    setImportFailure(null);
+    try {
+      setIsUploading(true);
+      onImported(await parse({ ...pipelineMappings?.options, encoding }));
+    } catch (error) {
+      reportFailure(error, file.name, () => reimportWithEncoding(encoding));
     } finally {
       setIsUploading(false);
     }
   };
 
+  const retryImport = () => {
+    const retry = retryRef.current;
+    if (retry) void retry();
+  };
+  const dismissImportFailure = () => setImportFailure(null);
+
+  const accept = buildAcceptList(config.parserRegistry);
+  const isAccepted = (file: File) => isAcceptedFile(file, config.parserRegistry);
+
+  // Import the first dropped file a parser can read; report the drop when none can
+  const handleDroppedFiles = async (files: File[]) => {
+    const file = files.find(isAccepted);
+    if (file) {
+      await handleFile(file);
+      return;
+    }
+    if (files.length === 0) return;
+    const names = files.map((f) => f.name).join(", ");
+    reportFailure(
+      new Error(
+        files.length === 1
+          ? "This file type isn't supported."
+          : "None of the dropped files is a supported type."
+      ),
+      names,
+      async () => triggerFilePicker()
+    );
+  };
+
   const triggerFilePicker = () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".csv,.xlsx,.xls";
+    input.accept = accept;
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) await handleFile(file);
@@ -53,5 +317,22 @@ export function useFileImport({
     input.click();
   };
 
-  return { isUploading, triggerFilePicker, handleFile } as const;
+  return {
+    isUploading,
+    accept,
+    isAccepted,
+    triggerFilePicker,
+    handleFile,
+    handleDroppedFiles,
+    importFixedWidth,
+    importClipboard,
+    importFromUrl,
+    importFromProvider,
+    importFailure,
+    retryImport,
+    dismissImportFailure,
+    encodingSourceName: textSource?.file.name,
+    previewEncoding,
+    reimportWithEncoding,
+  } as const;
 }
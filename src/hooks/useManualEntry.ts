@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import type { FieldConfig } from "../types";
+import { isFieldHidden, isFieldRequired, validateConditions } from "../utils/dataProcessing";
 
 export type ManualEntryFilter = "all" | "valid" | "invalid";
 
@@ -27,12 +28,17 @@ export function useManualEntry(fields?: FieldConfig[]): UseManualEntryReturn {
   const [selectedFilter, setSelectedFilter] = useState<ManualEntryFilter>("all");
   const [isCalculatingValidation, setIsCalculatingValidation] = useState(false);
 
-  const validateField = (fieldKey: string, value: any): string | null => {
+  const validateField = (
+    fieldKey: string,
+    value: any,
+    rowData: Record<string, any> = {}
+  ): string | null => {
     if (!fields || fields.length === 0) return null;
     const field = fields.find((f) => f.key === fieldKey);
     if (!field) return null;
+    if (isFieldHidden(field, rowData)) return null;
 
-    if (field.required && (!value || value.toString().trim() === "")) {
+    if (isFieldRequired(field, rowData) && (!value || value.toString().trim() === "")) {
       return `${field.label} is required`;
     }
 
@@ -40,6 +46,9 @@ export function useManualEntry(fields?: FieldConfig[]): UseManualEntryReturn {
       return null;
     }
 
+    const conditionError = validateConditions(field, rowData, 0)[0];
+    if (conditionError) return conditionError.message;
+
     switch (field.type) {
       case "number":
         if (isNaN(Number(value))) {
@@ -122,14 +131,16 @@ export function useManualEntry(fields?: FieldConfig[]): UseManualEntryReturn {
         delete next[rowId];
         return next;
       }
-      const fieldError = validateField(fieldKey, value);
-      return {
-        ...prev,
-        [rowId]: {
-          ...(prev[rowId] || {}),
-          [fieldKey]: fieldError || "",
-        },
+      const rowErrors: Record<string, string> = {
+        ...(prev[rowId] || {}),
+        [fieldKey]: validateField(fieldKey, value, nextRowData) || "",
       };
+      // Fields with conditions may depend on the value that just changed
+      for (const f of fields || []) {
+        if (f.key === fieldKey || !(f.requiredWhen || f.hiddenWhen || f.allowedValuesWhen)) continue;
+        rowErrors[f.key] = validateField(f.key, nextRowData[f.key], nextRowData) || "";
+      }
+      return { ...prev, [rowId]: rowErrors };
     });
   };
 
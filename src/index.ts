@@ -3,25 +3,64 @@ export { default as FilefeedWorkbook } from "./components/FilefeedWorkbook";
 export { useFilefeed } from "./hooks/useFilefeed";
 export { FilefeedSheet } from "./components/FilefeedSheet";
 export type { Filefeed } from "./types/filefeedTypes";
+export {
+  configureBackendClient,
+  isBackendClientConfigured,
+  OFFLOAD_THRESHOLD_BYTES,
+} from "./utils/backendClient";
+export { createStaticSourceProvider } from "./utils/sourceProviders";
+export type {
+  BackendClientHandlers,
+  OffloadContext,
+  OffloadJobStatus,
+  OffloadProgress,
+  OffloadResult,
+  MultipartUploadHandlers,
+  UploadedPart,
+} from "./utils/backendClient";
 
 // Type exports
 export type {
   CreateWorkbookConfig,
   ProcessingOptions,
+  OffloadOptions,
   SheetConfig,
   FieldConfig,
+  FieldType,
+  EnumOption,
+  ValueMappings,
+  ParseLocale,
+  DateOutputMode,
   ValidationRule,
+  RowValidator,
+  UniqueConstraint,
+  ExistingKeys,
+  FieldCondition,
+  ConditionalValues,
+  AsyncValidator,
+  AsyncValidationRegistry,
   ImportedData,
+  ImportedWorksheet,
+  ImportDiagnostics,
+  ImportFailure,
+  ColumnCountMismatch,
   MappingState,
   ValidationError,
   DataRow,
   WorkbookState,
+  SheetWorkState,
   FilefeedEvents,
   FilefeedSDKProps,
   // New types for backend-compatible mapping
   FieldMapping,
   PipelineMappings,
+  PipelineOptions,
   TransformRegistry,
+  FileParser,
+  ParserRegistry,
+  SourceProvider,
+  ReviewFilter,
+  ResultSummary,
 } from "./types";
 
 // Default export for convenience
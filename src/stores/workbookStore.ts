@@ -9,6 +9,13 @@ import {
   ValidationError,
   FieldMapping,
   TransformRegistry,
+  RemoteResultState,
+  ResultSummary,
+  ReviewFilter,
+  SheetWorkState,
+  PipelineMappings,
+  FieldConfig,
+  UniqueConstraint,
 } from "../types";
 import {
   generateAutoMapping,
@@ -18,28 +25,162 @@ import {
   defaultTransforms,
   validateFieldWithRegistry,
   transformValue,
+  editedValue,
   applyNamedTransform,
+  lookupValueMapping,
+  validateRow,
+  applyRowValidators,
+  applyConditionalRules,
+  isFieldHidden,
+  hasAsyncValidations,
+  applyAsyncValidations,
+  asyncValidationErrors,
+  needsAsyncValidation,
+  prefetchAsyncValidations,
+  uniqueConstraintsFor,
+  applyUniqueConstraints,
+  buildExistingKeySet,
+  uniqueKeyOf,
+  uniqueConstraintErrors,
 } from "../utils/dataProcessing";
+import type { LookupCache } from "../utils/dataProcessing";
+import { resolveFieldLocales } from "../utils/localeParsing";
+import { fetchResultPage, isAbortError } from "../utils/backendClient";
+import { canProcessInWorker, processInWorker } from "../utils/importWorkerClient";
+import type { OffloadContext } from "../utils/backendClient";
 
 let processingRunId = 0;
 
+// Rows requested per page when reviewing paged backend results
+const RESULT_PAGE_SIZE = 500;
+
+const takeSheetWorkState = (state: WorkbookState): SheetWorkState => ({
+  importedData: state.importedData,
+  mappingState: state.mappingState,
+  processedData: state.processedData,
+  validationErrors: state.validationErrors,
+  pipelineMappings: state.pipelineMappings,
+  // Any in-flight page request is aborted when a sheet is parked
+  remoteResult: state.remoteResult ? { ...state.remoteResult, isFetching: false } : null,
+});
+
+const emptySheetWorkState = (
+  config: CreateWorkbookConfig,
+  sheetSlug: string
+): SheetWorkState => ({
+  importedData: null,
+  mappingState: {},
+  processedData: [],
+  validationErrors: [],
+  pipelineMappings: config.sheets?.find((s) => s.slug === sheetSlug)?.pipelineMappings,
+  remoteResult: null,
+});
+
+// Fresh working state for a sheet that just received imported data: applies
+// the sheet's saved pipeline mappings, or auto-maps headers to fields
+const prepareImportedSheetState = (
+  config: CreateWorkbookConfig,
+  sheetSlug: string,
+  data: ImportedData
+): SheetWorkState | null => {
+  const sheetConfig = config.sheets?.find((sheet) => sheet.slug === sheetSlug);
+  if (!sheetConfig) return null;
+
+  let pipelineMappings = sheetConfig.pipelineMappings;
+  let mappingState: MappingState;
+  if (!pipelineMappings) {
+    mappingState = generateAutoMapping(
+      data.headers,
+      sheetConfig.fields,
+      sheetConfig.mappingConfidenceThreshold
+    );
+    const fm = mappingStateToFieldMappings(mappingState).map((m) => {
+      const f = sheetConfig.fields.find((x) => x.key === m.target);
+      return f?.defaultTransform ? { ...m, transform: f.defaultTransform } : m;
+    });
+    pipelineMappings = {
+      fieldMappings: fm,
+    };
+  } else {
+    const filtered = (pipelineMappings.fieldMappings || []).filter((m) =>
+      data.headers.includes(m.source)
+    );
+    const seenTargets = new Set<string>();
+    const deduped = filtered.filter((m) => {
+      if (!m.target) return false;
+      if (seenTargets.has(m.target)) return false;
+      seenTargets.add(m.target);
+      return true;
+    });
+    pipelineMappings = { ...pipelineMappings, fieldMappings: deduped };
+    mappingState = fieldMappingsToMappingState(pipelineMappings.fieldMappings);
+  }
+
+  return {
+    importedData: data,
+    mappingState,
+    pipelineMappings,
+    processedData: [],
+    validationErrors: [],
+    remoteResult: null,
+  };
+};
+
+// Sheet fields with their effective number/date locale for the imported rows
+const fieldsWithLocales = (state: WorkbookState, fields: FieldConfig[]): FieldConfig[] =>
+  resolveFieldLocales(
+    fields,
+    state.importedData?.rows || [],
+    state.pipelineMappings?.fieldMappings || mappingStateToFieldMappings(state.mappingState),
+    state.config.processing?.locale
+  );
+
+const lookupFailureMessage = (err: unknown) =>
+  `Some values couldn't be checked with the server (${
+    err instanceof Error ? err.message : String(err)
+  }); rows may still be invalid.`;
+
+// Apply local edits/deletions to a freshly fetched page of backend rows
+const applyRemoteOverrides = (rows: DataRow[], remote: RemoteResultState): DataRow[] =>
+  rows
+    .map((r) => (r.id in remote.overrides ? remote.overrides[r.id] : r))
+    .filter((r): r is DataRow => !!r && !(remote.dropInvalid && !r.isValid));
+
 interface WorkbookActions {
   setConfig: (config: CreateWorkbookConfig) => void;
   setCurrentSheet: (sheetSlug: string) => void;
+  getAllSheetStates: () => Record<string, SheetWorkState>;
 
   setImportedData: (data: ImportedData) => void;
+  setSheetImportedData: (sheetSlug: string, data: ImportedData) => void;
   clearImportedData: () => void;
 
   setMapping: (mapping: MappingState) => void;
   updateMapping: (sourceColumn: string, targetField: string | null) => void;
   generateAutoMapping: () => void;
   setFieldMappings: (fieldMappings: FieldMapping[]) => void;
+  setValueMapping: (fieldKey: string, map: Record<string, string>) => void;
   setTransformRegistry: (registry: TransformRegistry) => void;
 
-  processData: () => void;
+  processData: () => Promise<void>;
   processDataChunked: () => Promise<void>;
+  processDataInWorker: () => Promise<void>;
+  // Resolves with the checked rows, or null if processing was cancelled meanwhile
+  runAsyncValidations: (rows: DataRow[], fields: FieldConfig[]) => Promise<DataRow[] | null>;
   processOnContinue: () => Promise<void>;
   cancelProcessing: () => void;
+  createOffloadSignal: () => AbortSignal;
+  setProcessingProgress: (progress: number, stage?: string) => void;
+  clearProcessingError: () => void;
+
+  setRemoteResult: (jobId: string, summary: ResultSummary) => Promise<void>;
+  loadNextResultPage: () => Promise<void>;
+  setRemoteResultFilter: (filter: ReviewFilter) => Promise<void>;
+  forEachResultPage: (
+    pageSize: number,
+    onPage: (rows: DataRow[]) => void | Promise<void>,
+    sheetSlug?: string // defaults to the active sheet; parked sheets use their own state
+  ) => Promise<void>;
   setProcessedRows: (rows: DataRow[]) => void;
   updateRowData: (rowId: string, fieldKey: string, value: any) => void;
   deleteRow: (rowId: string) => void;
@@ -48,6 +189,8 @@ interface WorkbookActions {
 
   setLoading: (loading: boolean) => void;
 
+  // Clear the active sheet's work; other sheets keep theirs
+  resetCurrentSheet: () => void;
   reset: () => void;
 }
 
@@ -65,13 +208,91 @@ const initialState: WorkbookState = {
   validationErrors: [],
   isLoading: false,
   processingProgress: 0,
+  processingStage: undefined,
+  processingError: null,
   pipelineMappings: undefined,
   transformRegistry: defaultTransforms,
   validationRegistry: undefined,
+  remoteResult: null,
+  sheetStates: {},
 };
 
-export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
-  createStore<WorkbookStore>()((set, get) => ({
+export const createWorkbookStore = (): StoreApi<WorkbookStore> => {
+  // Controller for the in-flight backend offload (if any), aborted on cancel
+  let offloadController: AbortController | null = null;
+  // Controller for the in-flight review page request, aborted on cancel
+  let pageController: AbortController | null = null;
+  // Controller for the page walk of an in-flight submit; review paging waits for it
+  let submitController: AbortController | null = null;
+  // Controller for the in-flight import worker job, aborted on cancel
+  let workerController: AbortController | null = null;
+  // Controller for in-flight async validator lookups, aborted on cancel
+  let lookupController: AbortController | null = null;
+  // Async validator results, kept across runs and edits until reset
+  let lookupCache: LookupCache = new Map();
+  // Normalized existing keys of each unique constraint, loaded once until reset
+  let existingKeyCache = new Map<UniqueConstraint, Set<string>>();
+
+  // Existing keys by constraint name, from static lists and keys already fetched
+  const existingKeysFrom = (constraints: UniqueConstraint[]): Map<string, Set<string>> => {
+    const byName = new Map<string, Set<string>>();
+    for (const c of constraints) {
+      if (!existingKeyCache.has(c) && c.existingKeys && typeof c.existingKeys !== "function") {
+        existingKeyCache.set(c, buildExistingKeySet(c.existingKeys, c));
+      }
+      const keys = existingKeyCache.get(c);
+      if (keys) byName.set(c.name, keys);
+    }
+    return byName;
+  };
+
+  // Fetch host-provided key sources first; a failed source checks in-file duplicates only
+  const loadExistingKeys = async (
+    constraints: UniqueConstraint[]
+  ): Promise<Map<string, Set<string>>> => {
+    for (const c of constraints) {
+      if (existingKeyCache.has(c) || typeof c.existingKeys !== "function") continue;
+      try {
+        existingKeyCache.set(c, buildExistingKeySet(await c.existingKeys(), c));
+      } catch (err) {
+        store.setState({
+          processingError: `Existing records couldn't be loaded for "${c.name}" (${
+            err instanceof Error ? err.message : String(err)
+          }); only duplicates within the file were checked.`,
+        });
+      }
+    }
+    return existingKeysFrom(constraints);
+  };
+
+  // Resolved locales (with inferred date formats) of the active import, reused by edits
+  let localeMemo: { key: unknown[]; fields: FieldConfig[] } | null = null;
+  const sheetFieldsWithLocales = (state: WorkbookState, fields: FieldConfig[]) => {
+    const key = [state.config, fields, state.importedData, state.pipelineMappings, state.mappingState];
+    if (!localeMemo || key.some((k, i) => k !== localeMemo!.key[i])) {
+      localeMemo = { key, fields: fieldsWithLocales(state, fields) };
+    }
+    return localeMemo.fields;
+  };
+
+  const offloadContext = (
+    state: WorkbookState,
+    signal?: AbortSignal,
+    sheet: { sheetSlug: string; pipelineMappings?: PipelineMappings } = {
+      sheetSlug: state.currentSheet,
+      pipelineMappings: state.pipelineMappings,
+    }
+  ): OffloadContext => ({
+    ...sheet,
+    workbook: state.config,
+    signal,
+  });
+
+  // Working state of a sheet, whether it is active or parked
+  const sheetWorkState = (state: WorkbookState, sheetSlug: string): SheetWorkState | undefined =>
+    sheetSlug === state.currentSheet ? takeSheetWorkState(state) : state.sheetStates[sheetSlug];
+
+  const store = createStore<WorkbookStore>()((set, get) => ({
     ...initialState,
 
       setConfig: (config) => {
@@ -80,6 +301,9 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
           transformRegistry: config.transformRegistry || defaultTransforms,
           validationRegistry: config.validationRegistry,
         });
+        // Keep the active sheet (and its work) when the host re-renders with a new config object
+        const current = get().currentSheet;
+        if (current && config.sheets?.some((s) => s.slug === current)) return;
         if (config.sheets && config.sheets.length > 0) {
           const first = config.sheets[0];
           set({
@@ -96,70 +320,45 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
       },
 
       setCurrentSheet: (sheetSlug) => {
-        set({ currentSheet: sheetSlug });
-        set({
-          importedData: null,
-          mappingState: {},
-          processedData: [],
-          validationErrors: [],
-          pipelineMappings: get().config.sheets?.find(
-            (s) => s.slug === sheetSlug
-          )?.pipelineMappings,
-        });
+        const state = get();
+        if (sheetSlug === state.currentSheet) return;
+        get().cancelProcessing();
+        // Park the active sheet's work and restore the target sheet's
+        const sheetStates = { ...state.sheetStates };
+        if (state.currentSheet) {
+          sheetStates[state.currentSheet] = takeSheetWorkState(state);
+        }
+        const next = sheetStates[sheetSlug] || emptySheetWorkState(state.config, sheetSlug);
+        delete sheetStates[sheetSlug];
+        set({ currentSheet: sheetSlug, sheetStates, ...next });
       },
 
-      setImportedData: (data) => {
-        set({ importedData: data });
+      getAllSheetStates: () => {
         const state = get();
-        const currentSheetConfig = state.config.sheets?.find(
-          (sheet) => sheet.slug === state.currentSheet
-        );
+        const all = { ...state.sheetStates };
+        if (state.currentSheet) all[state.currentSheet] = takeSheetWorkState(state);
+        return all;
+      },
 
-        if (currentSheetConfig) {
-          let pipelineMappings = currentSheetConfig.pipelineMappings;
-          if (!pipelineMappings) {
-            const autoMapping = generateAutoMapping(
-              data.headers,
-              currentSheetConfig.fields,
-              currentSheetConfig.mappingConfidenceThreshold
-            );
-            set({ mappingState: autoMapping });
-            const fm = mappingStateToFieldMappings(autoMapping).map((m) => {
-              const f = currentSheetConfig.fields.find((x) => x.key === m.target);
-              return f?.defaultTransform
-                ? { ...m, transform: f.defaultTransform }
-                : m;
-            });
-            pipelineMappings = {
-              fieldMappings: fm,
-            };
-          } else {
-            const filtered = (pipelineMappings.fieldMappings || []).filter(
-              (m) => data.headers.includes(m.source)
-            );
-            const seenTargets = new Set<string>();
-            const deduped = filtered.filter((m) => {
-              if (!m.target) return false;
-              if (seenTargets.has(m.target)) return false;
-              seenTargets.add(m.target);
-              return true;
-            });
-            const effective = { ...pipelineMappings, fieldMappings: deduped };
-            set({
-              mappingState: fieldMappingsToMappingState(
-                effective.fieldMappings
-              ),
-            });
-            pipelineMappings = effective;
-          }
+      setImportedData: (data) => {
+        const state = get();
+        const prepared = prepareImportedSheetState(state.config, state.currentSheet, data);
+        if (!prepared) {
+          set({ importedData: data, remoteResult: null });
+          return;
+        }
+        set({ ...prepared, isLoading: false });
+      },
 
-          set({
-            pipelineMappings,
-            processedData: [],
-            validationErrors: [],
-            isLoading: false,
-          });
+      setSheetImportedData: (sheetSlug, data) => {
+        const state = get();
+        if (sheetSlug === state.currentSheet) {
+          get().setImportedData(data);
+          return;
         }
+        const prepared = prepareImportedSheetState(state.config, sheetSlug, data);
+        if (!prepared) return;
+        set({ sheetStates: { ...state.sheetStates, [sheetSlug]: prepared } });
       },
 
       processDataChunked: async () => {
@@ -171,10 +370,11 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         if (!currentSheetConfig) return;
 
         const rows = state.importedData.rows || [];
-        const fields = currentSheetConfig.fields;
+        const fields = fieldsWithLocales(state, currentSheetConfig.fields);
         const pipeline = state.pipelineMappings;
         const registry = state.transformRegistry || defaultTransforms;
         const vRegistry = state.validationRegistry;
+        const validate = pipeline?.options?.validateData !== false;
         const runId = ++processingRunId;
         set({ isLoading: true, processingProgress: 0 });
         const BATCH =
@@ -202,18 +402,21 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
                 if (!field) continue;
                 let v = row[source];
                 const tName = transform ?? field.defaultTransform;
-                v = applyNamedTransform(v, tName, registry);
-                const coerced = transformValue(v, field.type);
+                const mapped = lookupValueMapping(v, pipeline.valueMappings?.[target]);
+                v = mapped !== undefined ? mapped : applyNamedTransform(v, tName, registry);
+                const coerced = transformValue(v, field.type, field);
                 out[target] = coerced;
-                errors.push(
-                  ...validateFieldWithRegistry(
-                    coerced,
-                    field,
-                    index,
-                    out,
-                    vRegistry
-                  )
-                );
+                if (validate) {
+                  errors.push(
+                    ...validateFieldWithRegistry(
+                      coerced,
+                      field,
+                      index,
+                      out,
+                      vRegistry
+                    )
+                  );
+                }
               }
             } else {
               for (const [sourceColumn, targetField] of Object.entries(
@@ -225,7 +428,7 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
                 let raw = row[sourceColumn];
                 const tName = field.defaultTransform;
                 raw = applyNamedTransform(raw, tName, registry);
-                const coerced = transformValue(raw, field.type);
+                const coerced = transformValue(raw, field.type, field);
                 out[targetField] = coerced;
                 errors.push(
                   ...validateFieldWithRegistry(
@@ -240,7 +443,7 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
             }
 
             for (const f of fields) {
-              if (f.required && !(f.key in out)) {
+              if (validate && f.required && !(f.key in out)) {
                 errors.push({
                   row: index,
                   field: f.key,
@@ -249,13 +452,19 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
                 });
               }
             }
+            const checked = validate
+              ? [
+                  ...applyConditionalRules(out, index, fields, errors),
+                  ...validateRow(out, index, currentSheetConfig.rowValidators),
+                ]
+              : errors;
 
             processed.push({
               id: `row-${index}`,
               data: out,
-              errors,
+              errors: checked,
               isValid:
-                errors.filter((e) => e.severity === "error").length === 0,
+                checked.filter((e) => e.severity === "error").length === 0,
             });
           }
           if (runId !== processingRunId) return;
@@ -264,53 +473,172 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         }
 
         if (runId !== processingRunId) return;
-        const uniqueFields = fields.filter((f) => f.unique);
-        for (const f of uniqueFields) {
-          const seen = new Map<string, number>();
-          processed.forEach((r, idx) => {
-            const val = r.data[f.key];
-            if (val === undefined || val === null || val === "") return;
-            const key = String(val);
-            if (seen.has(key)) {
-              const first = seen.get(key)!;
-              const push = (rowIdx: number) => {
-                processed[rowIdx].errors.push({
-                  row: rowIdx,
-                  field: f.key,
-                  message: `${f.label} must be unique. Duplicate value '${key}' found`,
-                  severity: "error",
-                });
-                processed[rowIdx].isValid = false;
-              };
-              push(first);
-              push(idx);
-            } else {
-              seen.set(key, idx);
-            }
-          });
+        if (validate) {
+          const constraints = uniqueConstraintsFor(fields, currentSheetConfig.uniqueConstraints);
+          const existing = await loadExistingKeys(constraints);
+          if (runId !== processingRunId) return;
+          applyUniqueConstraints(processed, fields, constraints, existing);
         }
 
         if (runId !== processingRunId) return;
-        set({ processedData: processed });
+        const checked = validate
+          ? await get().runAsyncValidations(processed, fields)
+          : processed;
+        if (!checked || runId !== processingRunId) return;
+        set({ processedData: checked });
         set({
-          validationErrors: processed.flatMap((r) => r.errors),
+          validationErrors: checked.flatMap((r) => r.errors),
           isLoading: false,
           processingProgress: 1,
+          processingStage: undefined,
         });
       },
 
+      runAsyncValidations: async (rows, fields) => {
+        const registry = get().config.asyncValidationRegistry;
+        if (!hasAsyncValidations(fields, registry)) return rows;
+        const runId = processingRunId;
+        lookupController?.abort();
+        const controller = new AbortController();
+        lookupController = controller;
+        set({ processedData: rows, processingProgress: 0, processingStage: "Checking values" });
+        try {
+          const checked = await applyAsyncValidations(
+            rows,
+            fields,
+            registry,
+            lookupCache,
+            (done, total) => {
+              if (runId === processingRunId) set({ processingProgress: done / total });
+            },
+            controller.signal
+          );
+          return runId === processingRunId ? checked : null;
+        } catch (err) {
+          if (runId !== processingRunId) return null;
+          // A failed lookup shouldn't lose the rows; review them without those checks
+          set({ processingError: lookupFailureMessage(err) });
+          return rows;
+        } finally {
+          if (lookupController === controller) lookupController = null;
+        }
+      },
+
+      processDataInWorker: async () => {
+        const state = get();
+        const createWorker = state.config?.processing?.createWorker;
+        const currentSheetConfig = state.config.sheets?.find(
+          (sheet) => sheet.slug === state.currentSheet
+        );
+        if (!state.importedData || !currentSheetConfig || !createWorker) return;
+
+        const pipeline = state.pipelineMappings || {
+          fieldMappings: mappingStateToFieldMappings(state.mappingState),
+        };
+        const runId = ++processingRunId;
+        workerController?.abort();
+        const controller = new AbortController();
+        workerController = controller;
+        set({ isLoading: true, processingProgress: 0, processingStage: "Validating rows" });
+        try {
+          const processed = await processInWorker(
+            createWorker,
+            state.importedData,
+            fieldsWithLocales(state, currentSheetConfig.fields),
+            pipeline,
+            (fraction) => {
+              if (runId === processingRunId) set({ processingProgress: Math.min(1, fraction) });
+            },
+            controller.signal
+          );
+          if (runId !== processingRunId) return;
+          // Validators are functions, so they run here rather than in the worker
+          const sheetConstraints = currentSheetConfig.uniqueConstraints || [];
+          const existing =
+            pipeline.options?.validateData === false
+              ? undefined
+              : await loadExistingKeys(sheetConstraints);
+          if (runId !== processingRunId) return;
+          const validated =
+            pipeline.options?.validateData === false
+              ? processed
+              : await get().runAsyncValidations(
+                  applyUniqueConstraints(
+                    applyRowValidators(processed, currentSheetConfig.rowValidators),
+                    currentSheetConfig.fields,
+                    sheetConstraints,
+                    existing
+                  ),
+                  currentSheetConfig.fields
+                );
+          if (!validated || runId !== processingRunId) return;
+          set({
+            processedData: validated,
+            validationErrors: validated.flatMap((r) => r.errors),
+            isLoading: false,
+            processingProgress: 1,
+            processingStage: undefined,
+          });
+        } catch (err) {
+          if (isAbortError(err) || runId !== processingRunId) return;
+          // Worker failed to start or crashed; finish on the main thread
+          set({
+            processingStage: undefined,
+            processingError: `Background processing failed (${
+              err instanceof Error ? err.message : String(err)
+            }); rows were processed in the page instead.`,
+          });
+          await get().processDataChunked();
+        } finally {
+          if (workerController === controller) workerController = null;
+        }
+      },
+
       processOnContinue: async () => {
         const state = get();
         if (!state.importedData) return;
         const useChunk = Boolean(
           state.config?.processing?.chunkSize && state.config.processing.chunkSize > 0
         );
+        const currentSheetConfig = state.config.sheets?.find(
+          (sheet) => sheet.slug === state.currentSheet
+        );
+        const useWorker =
+          Boolean(state.config?.processing?.createWorker) &&
+          !!currentSheetConfig &&
+          canProcessInWorker(
+            currentSheetConfig.fields,
+            state.pipelineMappings || {
+              fieldMappings: mappingStateToFieldMappings(state.mappingState),
+            },
+            state.transformRegistry,
+            state.validationRegistry
+          );
+        set({ processingError: null });
         try {
-          if (useChunk) {
+          if (useWorker) {
+            await get().processDataInWorker();
+          } else if (useChunk) {
             await get().processDataChunked();
           } else {
             set({ isLoading: true });
-            await Promise.resolve().then(() => get().processData());
+            const runId = processingRunId;
+            await get().processData();
+            if (runId !== processingRunId) return;
+            const after = get();
+            if (currentSheetConfig && after.pipelineMappings?.options?.validateData !== false) {
+              const checked = await get().runAsyncValidations(
+                after.processedData,
+                sheetFieldsWithLocales(after, currentSheetConfig.fields)
+              );
+              if (!checked) return;
+              set({
+                processedData: checked,
+                validationErrors: checked.flatMap((r) => r.errors),
+                processingProgress: 1,
+                processingStage: undefined,
+              });
+            }
             set({ isLoading: false });
           }
         } catch (_err) {
@@ -322,7 +650,156 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
       cancelProcessing: () => {
         // Bump run id so any loop exits
         processingRunId++;
-        set({ isLoading: false, processingProgress: 0 });
+        if (offloadController) {
+          offloadController.abort();
+          offloadController = null;
+        }
+        pageController?.abort();
+        pageController = null;
+        submitController?.abort();
+        submitController = null;
+        workerController?.abort();
+        workerController = null;
+        lookupController?.abort();
+        lookupController = null;
+        set({
+          isLoading: false,
+          processingProgress: 0,
+          processingStage: undefined,
+          processingError: null,
+        });
+      },
+
+      createOffloadSignal: () => {
+        offloadController?.abort();
+        offloadController = new AbortController();
+        return offloadController.signal;
+      },
+
+      clearProcessingError: () => {
+        set({ processingError: null });
+      },
+
+      setProcessingProgress: (progress, stage) => {
+        set({
+          processingProgress: Math.max(0, Math.min(1, progress)),
+          processingStage: stage,
+        });
+      },
+
+      setRemoteResult: async (jobId, summary) => {
+        set({
+          remoteResult: {
+            jobId,
+            summary,
+            filter: "all",
+            nextCursor: undefined,
+            isFetching: false,
+            overrides: {},
+            dropInvalid: false,
+          },
+          processedData: [],
+          validationErrors: [],
+        });
+        await get().loadNextResultPage();
+      },
+
+      loadNextResultPage: async () => {
+        const state = get();
+        const remote = state.remoteResult;
+        if (!remote || remote.isFetching || remote.nextCursor === null) return;
+        if (submitController) return;
+        pageController?.abort();
+        const controller = new AbortController();
+        pageController = controller;
+        const signal = controller.signal;
+        set({ remoteResult: { ...remote, isFetching: true } });
+        const isSameRequest = (r?: RemoteResultState | null) =>
+          !!r &&
+          r.jobId === remote.jobId &&
+          r.filter === remote.filter &&
+          r.nextCursor === remote.nextCursor;
+        try {
+          const page = await fetchResultPage(remote.jobId, offloadContext(state, signal), {
+            cursor: remote.nextCursor ?? undefined,
+            limit: RESULT_PAGE_SIZE,
+            filter: remote.filter,
+          });
+          const current = get().remoteResult;
+          if (!isSameRequest(current)) return;
+          const processedData = [
+            ...get().processedData,
+            ...applyRemoteOverrides(page.rows, current!),
+          ];
+          set({
+            processedData,
+            validationErrors: processedData.flatMap((r) => r.errors),
+            remoteResult: { ...current!, nextCursor: page.nextCursor, isFetching: false },
+          });
+        } catch (err) {
+          const current = get().remoteResult;
+          if (isSameRequest(current)) {
+            set({ remoteResult: { ...current!, isFetching: false } });
+          }
+          if (!isAbortError(err)) {
+            set({
+              processingError: `More rows couldn't be loaded (${
+                err instanceof Error ? err.message : String(err)
+              }); scroll down to try again.`,
+            });
+          }
+        } finally {
+          if (pageController === controller) pageController = null;
+        }
+      },
+
+      setRemoteResultFilter: async (filter) => {
+        const remote = get().remoteResult;
+        if (!remote || remote.filter === filter) return;
+        set({
+          remoteResult: { ...remote, filter, nextCursor: undefined, isFetching: false },
+          processedData: [],
+          validationErrors: [],
+        });
+        await get().loadNextResultPage();
+      },
+
+      forEachResultPage: async (pageSize, onPage, sheetSlug) => {
+        const state = get();
+        const slug = sheetSlug || state.currentSheet;
+        const work = sheetWorkState(state, slug);
+        const target = work?.remoteResult;
+        if (!target) return;
+        const { jobId } = target;
+        // The host fetches pages with the owning sheet's slug and mappings
+        const ctx = offloadContext(state, undefined, {
+          sheetSlug: slug,
+          pipelineMappings: work.pipelineMappings,
+        });
+        // Review paging would only compete with the walk; stop it until submit ends
+        pageController?.abort();
+        pageController = null;
+        const controller = new AbortController();
+        submitController = controller;
+        const signal = controller.signal;
+        let cursor: string | undefined;
+        try {
+          do {
+            const page = await fetchResultPage(jobId, { ...ctx, signal }, {
+              cursor,
+              limit: pageSize,
+              filter: "all",
+            });
+            // Edits made meanwhile (active sheet) still apply
+            const current = sheetWorkState(get(), slug)?.remoteResult;
+            const latest = current?.jobId === jobId ? current : target;
+            const rows = applyRemoteOverrides(page.rows, latest);
+            if (rows.length) await onPage(rows);
+            cursor = page.nextCursor ?? undefined;
+          } while (cursor);
+        } finally {
+          if (submitController === controller) submitController = null;
+        }
       },
 
       clearImportedData: () => {
@@ -331,6 +808,7 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
           mappingState: {},
           processedData: [],
           validationErrors: [],
+          remoteResult: null,
         });
       },
 
@@ -338,6 +816,8 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         set({
           mappingState: mapping,
           pipelineMappings: {
+            options: get().pipelineMappings?.options,
+            valueMappings: get().pipelineMappings?.valueMappings,
             fieldMappings: mappingStateToFieldMappings(mapping),
           },
         });
@@ -400,6 +880,23 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         set({ processedData: [], validationErrors: [] });
       },
 
+      setValueMapping: (fieldKey, map) => {
+        const state = get();
+        set({
+          pipelineMappings: {
+            ...(state.pipelineMappings || {
+              fieldMappings: mappingStateToFieldMappings(state.mappingState),
+            }),
+            valueMappings: {
+              ...(state.pipelineMappings?.valueMappings || {}),
+              [fieldKey]: map,
+            },
+          },
+        });
+        get().cancelProcessing();
+        set({ processedData: [], validationErrors: [] });
+      },
+
       setTransformRegistry: (registry) => {
         set({ transformRegistry: registry });
         get().cancelProcessing();
@@ -427,6 +924,8 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
           set({
             mappingState: autoMapping,
             pipelineMappings: {
+              options: state.pipelineMappings?.options,
+              valueMappings: state.pipelineMappings?.valueMappings,
               fieldMappings: fm,
             },
           });
@@ -435,7 +934,7 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         }
       },
 
-      processData: () => {
+      processData: async () => {
         const state = get();
         if (!state.importedData) return;
 
@@ -444,25 +943,39 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         );
 
         if (currentSheetConfig) {
+          const fields = fieldsWithLocales(state, currentSheetConfig.fields);
           const processedData = state.pipelineMappings
             ? processImportedDataWithMappings(
                 state.importedData,
-                currentSheetConfig.fields,
+                fields,
                 state.pipelineMappings,
                 state.transformRegistry || defaultTransforms,
                 state.validationRegistry
               )
             : processImportedDataWithMappings(
                 state.importedData,
-                currentSheetConfig.fields,
+                fields,
                 { fieldMappings: mappingStateToFieldMappings(state.mappingState) },
                 state.transformRegistry || defaultTransforms,
                 state.validationRegistry
               );
-          set({ processedData });
+          const sheetConstraints = currentSheetConfig.uniqueConstraints || [];
+          const validate = state.pipelineMappings?.options?.validateData !== false;
+          const runId = processingRunId;
+          const existing = validate ? await loadExistingKeys(sheetConstraints) : undefined;
+          if (runId !== processingRunId) return;
+          const validated = validate
+            ? applyUniqueConstraints(
+                applyRowValidators(processedData, currentSheetConfig.rowValidators),
+                fields,
+                sheetConstraints,
+                existing
+              )
+            : processedData;
+          set({ processedData: validated });
 
           // Extract validation errors
-          const validationErrors = processedData.flatMap((row) => row.errors);
+          const validationErrors = validated.flatMap((row) => row.errors);
           set({ validationErrors });
         }
       },
@@ -474,22 +987,44 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         );
 
         if (!currentSheetConfig) return;
+        // Same number/date parsing as the import, including inferred date formats
+        const fields = sheetFieldsWithLocales(state, currentSheetConfig.fields);
 
         const updatedData = state.processedData.map((row) => {
           if (row.id === rowId) {
-            const newData = { ...row.data, [fieldKey]: value };
+            const field = fields.find((f) => f.key === fieldKey);
+            const stored = field ? editedValue(value, field) : value;
+            const newData = { ...row.data, [fieldKey]: stored };
+            // Fields the edit shows or hides get their own rules re-checked
+            const toggled = fields.filter(
+              (f) =>
+                f.key !== fieldKey &&
+                isFieldHidden(f, row.data) !== isFieldHidden(f, newData)
+            );
+            const recheck = new Set([fieldKey, ...toggled.map((f) => f.key)]);
 
-            const field = currentSheetConfig.fields.find(
-              (f) => f.key === fieldKey
+            // Row validator errors may sit on other fields; they are all re-run below
+            const errors = row.errors.filter(
+              (e) => (!recheck.has(e.field) || !!e.constraint) && !e.validator
+            );
+            const rowIndex = state.processedData.findIndex(
+              (r) => r.id === rowId
+            );
+            toggled.forEach((f) =>
+              errors.push(
+                ...validateFieldWithRegistry(
+                  transformValue(newData[f.key], f.type, f),
+                  f,
+                  rowIndex,
+                  newData,
+                  state.validationRegistry
+                )
+              )
             );
-            const errors = row.errors.filter((e) => e.field !== fieldKey);
 
             if (field) {
-              const rowIndex = state.processedData.findIndex(
-                (r) => r.id === rowId
-              );
               const fieldErrors = validateFieldWithRegistry(
-                value,
+                transformValue(stored, field.type, field),
                 field,
                 rowIndex,
                 newData,
@@ -497,13 +1032,57 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
               );
               errors.push(...fieldErrors);
             }
+            // Cached lookups apply right away; new values are checked below
+            errors.push(
+              ...asyncValidationErrors(
+                newData,
+                rowIndex,
+                field ? [field] : [],
+                state.config.asyncValidationRegistry,
+                lookupCache
+              )
+            );
+            // Re-check the keys that include the edited field against the other rows
+            const touched = uniqueConstraintsFor(
+              currentSheetConfig.fields,
+              currentSheetConfig.uniqueConstraints
+            ).filter((c) => c.fields.includes(fieldKey));
+            const existing = existingKeysFrom(touched);
+            const keyErrors = touched.flatMap((c) => {
+              const key = uniqueKeyOf(newData, c);
+              if (key === null) return [];
+              const isExisting = !!existing.get(c.name)?.has(key);
+              const isDuplicate = state.processedData.some(
+                (r) => r.id !== rowId && uniqueKeyOf(r.data, c) === key
+              );
+              if (!isExisting && !isDuplicate) return [];
+              return uniqueConstraintErrors(
+                newData,
+                rowIndex,
+                c,
+                currentSheetConfig.fields,
+                isExisting ? "existing" : "duplicate"
+              );
+            });
+            const touchedNames = new Set(touched.map((c) => c.name));
+            // Conditions may hinge on the edited value, so the whole row is re-checked
+            const checked = [
+              ...applyConditionalRules(
+                newData,
+                rowIndex,
+                currentSheetConfig.fields,
+                errors.filter((e) => !e.constraint || !touchedNames.has(e.constraint))
+              ),
+              ...validateRow(newData, rowIndex, currentSheetConfig.rowValidators),
+              ...keyErrors,
+            ];
 
             return {
               ...row,
               data: newData,
-              errors,
+              errors: checked,
               isValid:
-                errors.filter((e) => e.severity === "error").length === 0,
+                checked.filter((e) => e.severity === "error").length === 0,
             };
           }
           return row;
@@ -513,6 +1092,43 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
 
         const validationErrors = updatedData.flatMap((row) => row.errors);
         set({ validationErrors });
+
+        // Paged backend results: remember the edit and keep server counts in step
+        const remote = state.remoteResult;
+        const before = state.processedData.find((r) => r.id === rowId);
+        const after = updatedData.find((r) => r.id === rowId);
+        if (remote && before && after) {
+          const delta = Number(after.isValid) - Number(before.isValid);
+          set({
+            remoteResult: {
+              ...remote,
+              overrides: { ...remote.overrides, [rowId]: after },
+              summary: {
+                ...remote.summary,
+                validRows: remote.summary.validRows + delta,
+                invalidRows: remote.summary.invalidRows - delta,
+              },
+            },
+          });
+        }
+
+        // Look the new value up, then re-apply the edit if it is still current
+        const editedField = currentSheetConfig.fields.find((f) => f.key === fieldKey);
+        const lookups = state.config.asyncValidationRegistry;
+        if (
+          editedField &&
+          after &&
+          needsAsyncValidation(after.data, [editedField], lookups, lookupCache)
+        ) {
+          prefetchAsyncValidations([after.data], [editedField], lookups, lookupCache)
+            .then(() => {
+              const current = get().processedData.find((r) => r.id === rowId);
+              if (current && current.data[fieldKey] === value) {
+                get().updateRowData(rowId, fieldKey, value);
+              }
+            })
+            .catch((err) => set({ processingError: lookupFailureMessage(err) }));
+        }
       },
 
       deleteRow: (rowId) => {
@@ -524,6 +1140,22 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
 
         const validationErrors = updatedData.flatMap((row) => row.errors);
         set({ validationErrors });
+
+        const remote = state.remoteResult;
+        const deleted = state.processedData.find((r) => r.id === rowId);
+        if (remote && deleted) {
+          set({
+            remoteResult: {
+              ...remote,
+              overrides: { ...remote.overrides, [rowId]: null },
+              summary: {
+                totalRows: remote.summary.totalRows - 1,
+                validRows: remote.summary.validRows - (deleted.isValid ? 1 : 0),
+                invalidRows: remote.summary.invalidRows - (deleted.isValid ? 0 : 1),
+              },
+            },
+          });
+        }
       },
 
       deleteInvalidRows: () => {
@@ -532,6 +1164,21 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         set({ processedData: kept });
         const validationErrors = kept.flatMap((row) => row.errors || []);
         set({ validationErrors });
+
+        const remote = state.remoteResult;
+        if (remote) {
+          set({
+            remoteResult: {
+              ...remote,
+              dropInvalid: true,
+              summary: {
+                totalRows: remote.summary.validRows,
+                validRows: remote.summary.validRows,
+                invalidRows: 0,
+              },
+            },
+          });
+        }
       },
 
       addRow: () => {
@@ -551,7 +1198,27 @@ export const createWorkbookStore = (): StoreApi<WorkbookStore> =>
         set({ isLoading: loading });
       },
 
+      resetCurrentSheet: () => {
+        get().cancelProcessing();
+        const state = get();
+        set(emptySheetWorkState(state.config, state.currentSheet));
+      },
+
       reset: () => {
+        offloadController?.abort();
+        offloadController = null;
+        pageController?.abort();
+        pageController = null;
+        submitController?.abort();
+        submitController = null;
+        workerController?.abort();
+        workerController = null;
+        lookupController?.abort();
+        lookupController = null;
+        lookupCache = new Map();
+        existingKeyCache = new Map();
         set(initialState);
       },
   }));
+  return store;
+};
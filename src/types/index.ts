@@ -8,7 +8,17 @@ export interface CreateWorkbookConfig {
   sheets?: SheetConfig[];
   transformRegistry?: TransformRegistry;
   validationRegistry?: ValidationRegistry;
+  // Batched lookups referenced by { type: "async", name } rules
+  asyncValidationRegistry?: AsyncValidationRegistry;
+  // Custom file formats; checked before the built-in CSV/Excel/JSON parsers
+  parserRegistry?: ParserRegistry;
+  // Enables "Import from URL"; the host fetches (auth, proxies, CORS) and returns the bytes
+  fetchUrl?: (url: string, signal?: AbortSignal) => Promise<File | Blob>;
+  // Extra import sources (Drive, Dropbox, S3 browsers) shown on the import screen
+  sourceProviders?: Record<string, SourceProvider>;
   processing?: ProcessingOptions;
+  // Multi-sheet workbooks: match Excel tabs to sheets by name on upload
+  autoAssignWorksheets?: boolean;
 }
 
 export interface SheetConfig {
@@ -17,21 +27,124 @@ export interface SheetConfig {
   fields: FieldConfig[];
   mappingConfidenceThreshold?: number;
   pipelineMappings?: PipelineMappings;
+  // Start offset (0-based) of each column for fixed-width text files
+  fixedWidthColumns?: number[];
+  // Checks that span fields, run on every processed row and again after edits
+  rowValidators?: RowValidator[];
+  // Composite keys that must not repeat within the file or match existing records
+  uniqueConstraints?: UniqueConstraint[];
+}
+
+export interface UniqueConstraint {
+  name: string;
+  fields: string[]; // e.g. ["first_name", "last_name", "dob"]
+  // Default false: values are trimmed, whitespace-collapsed and lower-cased
+  caseSensitive?: boolean;
+  message?: string;
+  // Keys already stored by the host (one value per field, or a string for one
+  // field); rows matching one are flagged before submit
+  existingKeys?: ExistingKeys | (() => Promise<ExistingKeys>);
+}
+
+export type ExistingKeys = Iterable<string | any[]>;
+
+export interface RowValidator {
+  name: string;
+  fields: string[]; // errors attach to these fields
+  // false or a message fails the row; objects/arrays target specific fields
+  validate: (
+    row: Record<string, any>,
+    rowIndex: number
+  ) =>
+    | string
+    | boolean
+    | null
+    | undefined
+    | Partial<ValidationError>
+    | Partial<ValidationError>[];
+  message?: string; // used when validate returns false
+  severity?: "error" | "warning";
+}
+
+export type FieldType =
+  | "string"
+  | "number"
+  | "email"
+  | "date"
+  | "boolean"
+  | "enum"
+  | "currency" // stored as a number
+  | "phone" // digits with an optional leading "+"
+  | "url"
+  | "datetime" // ISO 8601
+  | "time" // "HH:MM:SS"
+  | "json";
+
+export interface EnumOption {
+  value: string;
+  label?: string;
 }
 
 export interface FieldConfig {
   key: string;
   label: string;
-  type: "string" | "number" | "email" | "date" | "boolean";
+  type: FieldType;
   required?: boolean;
   unique?: boolean;
   validations?: ValidationRule[];
   description?: string;
   defaultTransform?: string;
+  // Allowed values for "enum" fields; imported values match by value or label
+  options?: EnumOption[];
+  // Number/date parsing; overrides processing.locale
+  locale?: ParseLocale;
+  // How date/datetime values are stored; default "utc" (a full ISO timestamp).
+  // Use "date" for plain calendar dates that must not shift with time zones.
+  dateOutput?: DateOutputMode;
+  // Conditions on other fields of the same row
+  requiredWhen?: FieldCondition;
+  hiddenWhen?: FieldCondition; // not applicable: skipped by validation and locked in review
+  allowedValuesWhen?: ConditionalValues[]; // the first entry whose condition holds applies
+}
+
+// Tests another field of the row; a leaf with several operators needs all of
+// them. Values compare as trimmed, case-insensitive strings.
+export type FieldCondition =
+  | {
+      field: string;
+      equals?: any;
+      notEquals?: any;
+      in?: any[];
+      notIn?: any[];
+      empty?: boolean;
+      matches?: string; // regex
+    }
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition };
+
+export interface ConditionalValues {
+  when: FieldCondition;
+  values: any[];
+  message?: string;
+}
+
+// "date": "2024-03-01"; "local": "2024-03-01T09:30:00" (no offset);
+// "utc": "2024-03-01T14:30:00.000Z", reading wall-clock values in locale.timeZone
+export type DateOutputMode = "date" | "local" | "utc";
+
+export interface ParseLocale {
+  decimalSeparator?: "." | ",";
+  thousandsSeparator?: string; // e.g. ",", ".", " ", "'"
+  // Tried in order; built from YYYY, YY, MM, M, DD, D, e.g. "DD.MM.YYYY"
+  dateFormats?: string[];
+  dayFirst?: boolean; // read ambiguous dates such as 03/04/2024 as 3 April
+  inferDateFormat?: boolean; // false: don't guess a format from the column sample
+  timeZone?: string; // IANA zone of values without an offset, e.g. "America/New_York"
 }
 
 export interface ValidationRule {
-  type: "regex" | "min" | "max" | "custom";
+  type: "regex" | "min" | "max" | "custom" | "async";
   value?: any;
   message: string;
   name?: string;
@@ -41,6 +154,22 @@ export interface ValidationRule {
 
 export interface ProcessingOptions {
   chunkSize?: number;
+  locale?: ParseLocale; // default number/date parsing for every field
+  // Excel decoding, transforms and validation run off the main thread, e.g.
+  // () => new Worker(new URL("@filefeed/react/worker", import.meta.url), { type: "module" })
+  createWorker?: () => Worker;
+  offload?: OffloadOptions;
+}
+
+// Overrides for the backend offload path (see utils/backendClient)
+export interface OffloadOptions {
+  thresholdBytes?: number;
+  pollTimeoutMs?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+  partSizeBytes?: number; // multipart uploads only
+  maxPartRetries?: number;
 }
 
 export interface ImportedData {
@@ -48,6 +177,47 @@ export interface ImportedData {
   rows: Record<string, any>[];
   fileName?: string;
   fileType?: string;
+  worksheetName?: string;
+  // Index of the header within rawPreview (the first raw rows of the file)
+  headerRowIndex?: number;
+  rawPreview?: any[][];
+  // Every non-empty tab of an Excel workbook (the top-level data is the first)
+  worksheets?: ImportedWorksheet[];
+  diagnostics?: ImportDiagnostics;
+}
+
+export interface ColumnCountMismatch {
+  row: number; // 1-based record number in the file
+  expected: number;
+  actual: number;
+}
+
+// What the parser noticed while reading a file (text formats)
+export interface ImportDiagnostics {
+  encoding?: string;
+  encodingConfidence?: number; // 0-1, as reported by the detector
+  delimiter?: string;
+  columnMismatches?: ColumnCountMismatch[]; // first 100 only
+  columnMismatchCount?: number;
+  warnings?: string[];
+}
+
+export interface ImportFailure {
+  message: string;
+  fileName?: string;
+  diagnostics?: ImportDiagnostics;
+}
+
+// How an uploaded file will be parsed, decided from its content
+export type DetectedFormat =
+  | { kind: "excel" }
+  | { kind: "json" }
+  | { kind: "delimited"; delimiter: string }
+  | { kind: "fixed-width"; columns: number[]; sampleLines: string[] };
+
+export interface ImportedWorksheet {
+  name: string;
+  data: ImportedData;
 }
 
 export interface MappingState {
@@ -61,14 +231,22 @@ export interface FieldMapping {
   confidence?: number;
 }
 
+export interface PipelineOptions {
+  delimiter?: string; // forced CSV delimiter; sniffed when omitted
+  encoding?: string; // forced text encoding (e.g. "shift_jis"); sniffed when omitted
+  // false: the file has no header row and columns are named "Column 1", "Column 2", ...
+  skipHeaderRow?: boolean;
+  detectTypes?: boolean; // convert all-numeric / all-boolean columns on import
+  validateData?: boolean; // false: skip validation when processing
+}
+
+// Enum field key -> source value (trimmed) -> option value
+export type ValueMappings = Record<string, Record<string, string>>;
+
 export interface PipelineMappings {
-  options?: {
-    delimiter?: string;
-    skipHeaderRow?: boolean;
-    detectTypes?: boolean;
-    validateData?: boolean;
-  };
+  options?: PipelineOptions;
   fieldMappings: FieldMapping[];
+  valueMappings?: ValueMappings;
   transformations?: Record<string, string>;
   validations?: Record<string, any>;
   [key: string]: any;
@@ -85,11 +263,38 @@ export type ValidationRegistry = Record<
   ) => string | ValidationError | null | undefined | boolean
 >;
 
+// Checks many distinct values of a field in one call (e.g. "which SKUs exist?").
+// Resolve with a message (or false) for each failing value, keyed by String(value);
+// values left out pass.
+export type AsyncValidator = (
+  values: string[],
+  field: FieldConfig,
+  args?: any,
+  signal?: AbortSignal
+) => Promise<Record<string, string | boolean | null | undefined>>;
+export type AsyncValidationRegistry = Record<string, AsyncValidator>;
+
+export interface FileParser {
+  extensions?: string[]; // e.g. [".xml"]
+  mimeTypes?: string[]; // e.g. ["application/xml", "text/*"]
+  parse: (file: File, options?: PipelineOptions) => Promise<ImportedData>;
+}
+export type ParserRegistry = Record<string, FileParser>;
+
+export interface SourceProvider {
+  label: string;
+  // Resolve with the chosen file, or null if the user closed the picker
+  pick: (ctx: { sheetSlug: string; signal?: AbortSignal }) => Promise<File | Blob | null>;
+}
+
 export interface ValidationError {
   row: number;
   field: string;
   message: string;
   severity: "error" | "warning";
+  validator?: string; // set on errors raised by row-level rules (row validators, conditions)
+  lookup?: string; // set on errors raised by an async validator
+  constraint?: string; // set on errors raised by a sheet unique constraint
 }
 
 export interface DataRow {
@@ -99,6 +304,38 @@ export interface DataRow {
   isValid: boolean;
 }
 
+export type ReviewFilter = "all" | "valid" | "invalid";
+
+// Row counts reported by the server for a backend-processed job
+export interface ResultSummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+}
+
+// Review state for backend results that are fetched page by page
+export interface RemoteResultState {
+  jobId: string;
+  summary: ResultSummary;
+  filter: ReviewFilter;
+  // undefined before the first page is loaded, null once every page is loaded
+  nextCursor?: string | null;
+  isFetching: boolean;
+  // Local edits keyed by row ID; null marks a deleted row
+  overrides: Record<string, DataRow | null>;
+  dropInvalid: boolean;
+}
+
+// Working state of a sheet; parked in `sheetStates` while another sheet is active
+export interface SheetWorkState {
+  importedData: ImportedData | null;
+  mappingState: MappingState;
+  processedData: DataRow[];
+  validationErrors: ValidationError[];
+  pipelineMappings?: PipelineMappings;
+  remoteResult?: RemoteResultState | null;
+}
+
 export interface WorkbookState {
   config: CreateWorkbookConfig;
   currentSheet: string;
@@ -111,16 +348,24 @@ export interface WorkbookState {
   transformRegistry?: TransformRegistry;
   validationRegistry?: ValidationRegistry;
   processingProgress?: number;
+  processingStage?: string;
+  // Set when part of processing failed but the rows are still reviewable
+  processingError?: string | null;
+  remoteResult?: RemoteResultState | null;
+  sheetStates: Record<string, SheetWorkState>;
 }
 export interface FilefeedEvents {
   onDataImported?: (data: ImportedData) => void;
+  onImportError?: (failure: ImportFailure) => void;
   onMappingChanged?: (mapping: MappingState) => void;
   onValidationComplete?: (errors: ValidationError[]) => void;
-  onWorkbookComplete?: (data: DataRow[]) => void;
+  // `data` holds the rows of every submitted sheet; `sheets` groups them by slug
+  onWorkbookComplete?: (data: DataRow[], sheets: Record<string, DataRow[]>) => void;
   onSubmitChunk?: (args: {
     rows: DataRow[];
-    chunkIndex: number;
-    totalChunks: number;
+    chunkIndex: number; // per sheet
+    totalChunks: number; // per sheet
+    slug: string;
   }) => void | Promise<void>;
   onSubmitStart?: () => void;
   onSubmitComplete?: () => void;
@@ -150,6 +395,73 @@ export interface MappingInterfaceProps {
   isProcessing?: boolean;
   canContinue?: boolean;
   processingProgress?: number;
+  onChangeHeaderRow?: () => void;
+}
+
+export interface WorksheetPickerProps {
+  worksheets: ImportedWorksheet[];
+  fileName?: string;
+  onSelect: (worksheet: ImportedWorksheet) => void;
+  onBack?: () => void;
+}
+
+export interface DistinctValue {
+  value: string;
+  count: number;
+}
+
+export interface ValueMappingStepProps {
+  fields: FieldConfig[]; // enum fields that have a mapped source column
+  importedData: ImportedData;
+  fieldMappings: FieldMapping[];
+  valueMappings?: ValueMappings;
+  onChange: (fieldKey: string, map: Record<string, string>) => void;
+  onBack?: () => void;
+  onContinue: () => void;
+  isProcessing?: boolean;
+}
+
+export interface HeaderRowPickerProps {
+  rows: any[][];
+  selectedIndex: number;
+  onConfirm: (headerRowIndex: number) => void;
+  onBack?: () => void;
+}
+
+export interface ImportDiagnosticsPanelProps {
+  failure?: ImportFailure | null;
+  diagnostics?: ImportDiagnostics;
+  fileName?: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+export interface EncodingPickerProps {
+  encoding: string;
+  confidence?: number; // set when the encoding was detected rather than picked
+  onPreview: (encoding: string) => Promise<string[][]>;
+  onApply: (encoding: string) => void;
+}
+
+export interface ColumnRulerProps {
+  lines: string[];
+  columns: number[];
+  fileName?: string;
+  onConfirm: (columns: number[]) => void;
+  onBack?: () => void;
+}
+
+export interface CellEditorProps {
+  field?: FieldConfig;
+  value: any;
+  disabled?: boolean; // the field doesn't apply to this row (hiddenWhen)
+  required?: boolean;
+  allowedValues?: any[]; // restricts the choices for this row (allowedValuesWhen)
+  onChange: (value: string) => void;
+  onFocus?: () => void;
+  onBlur?: () => void;
+  title?: string;
+  style?: React.CSSProperties;
 }
 
 export interface FilefeedWorkbookRef {
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { configureBackendClient, offloadAndProcessFile } from "./backendClient";
+import type { MultipartUploadHandlers, OffloadContext, UploadedPart } from "./backendClient";
+
+// 10 bytes in 4-byte parts: parts 1-3
+const makeFile = () => new File(["0123456789"], "people.csv", { type: "text/csv" });
+
+const makeContext = (): OffloadContext => ({
+  sheetSlug: "people",
+  workbook: {
+    name: "Test",
+    processing: { offload: { partSizeBytes: 4, maxPartRetries: 1, initialDelayMs: 1 } },
+  },
+});
+
+// Stand-in for an S3-style part endpoint; `failing` parts answer 500
+const stubPartServer = (failing: Set<number>) => {
+  const attempts: number[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const partNumber = Number(url.split("/").pop());
+      attempts.push(partNumber);
+      return failing.has(partNumber)
+        ? new Response(null, { status: 500 })
+        : new Response(null, { status: 200, headers: { ETag: `etag-${partNumber}` } });
+    })
+  );
+  return attempts;
+};
+
+const configure = (multipart: MultipartUploadHandlers) => {
+  const startProcessing = vi.fn(async () => ({ jobId: "job-1" }));
+  configureBackendClient({
+    multipart,
+    startProcessing,
+    pollResult: async () => ({ done: true, rows: [] }),
+  });
+  return startProcessing;
+};
+
+describe("multipart upload", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("retries a failed part before giving up", async () => {
+    const failing = new Set([2]);
+    const attempts = stubPartServer(failing);
+    const multipart: MultipartUploadHandlers = {
+      initiate: vi.fn(async () => ({ uploadId: "up-retry", key: "uploads/retry.csv" })),
+      getPartUrl: async ({ partNumber }) => {
+        // The part recovers on its second attempt
+        if (attempts.filter((n) => n === partNumber).length === 1) failing.delete(partNumber);
+        return { url: `https://storage.test/up-retry/${partNumber}` };
+      },
+      complete: vi.fn(async () => undefined),
+    };
+    const startProcessing = configure(multipart);
+
+    await offloadAndProcessFile(makeFile(), makeContext());
+
+    expect(attempts).toEqual([1, 2, 2, 3]);
+    expect(multipart.complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        parts: [1, 2, 3].map((n) => ({ partNumber: n, etag: `etag-${n}` })),
+      })
+    );
+    expect(startProcessing).toHaveBeenCalledWith(
+      expect.objectContaining({ uploadKey: "uploads/retry.csv" })
+    );
+  });
+
+  it("resumes after the last confirmed part when the same file is retried", async () => {
+    const failing = new Set([2]);
+    const attempts = stubPartServer(failing);
+    const stored: UploadedPart[] = [];
+    const multipart: MultipartUploadHandlers = {
+      initiate: vi.fn(async () => ({ uploadId: "up-resume", key: "uploads/resume.csv" })),
+      getPartUrl: async ({ partNumber }) => ({ url: `https://storage.test/up-resume/${partNumber}` }),
+      complete: vi.fn(async () => undefined),
+      listParts: vi.fn(async () => stored),
+    };
+    const startProcessing = configure(multipart);
+    const file = makeFile();
+
+    await expect(offloadAndProcessFile(file, makeContext())).rejects.toThrow(
+      "Upload of part 2 failed with status 500"
+    );
+    expect(attempts).toEqual([1, 2, 2]);
+    expect(multipart.complete).not.toHaveBeenCalled();
+
+    // The server kept part 1; the retry uploads only what is missing
+    stored.push({ partNumber: 1, etag: "etag-1" });
+    failing.clear();
+    attempts.length = 0;
+    await offloadAndProcessFile(file, makeContext());
+
+    expect(multipart.initiate).toHaveBeenCalledTimes(1);
+    expect(multipart.listParts).toHaveBeenCalledWith(
+      expect.objectContaining({ uploadId: "up-resume", key: "uploads/resume.csv" })
+    );
+    expect(attempts).toEqual([2, 3]);
+    expect(multipart.complete).toHaveBeenCalledWith(
+      expect.objectContaining({
+        uploadId: "up-resume",
+        parts: [1, 2, 3].map((n) => ({ partNumber: n, etag: `etag-${n}` })),
+      })
+    );
+    expect(startProcessing).toHaveBeenCalledTimes(1);
+  });
+});
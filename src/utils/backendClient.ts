@@ -1,12 +1,21 @@
-import { DataRow, PipelineMappings, CreateWorkbookConfig } from "../types";
+import {
+  DataRow,
+  PipelineMappings,
+  CreateWorkbookConfig,
+  OffloadOptions,
+  ResultSummary,
+  ReviewFilter,
+} from "../types";
 
-// Hardcoded 10MB threshold for local vs. server processing
+// Default 10MB threshold for local vs. server processing
+// (override per workbook with `processing.offload.thresholdBytes`)
 export const OFFLOAD_THRESHOLD_BYTES = 10 * 1024 * 1024;
 
 // Handlers must be configured by the app owner (not end users)
 export interface BackendClientHandlers {
-  // Return an upload destination for the raw file (typically a presigned URL)
-  getUploadUrl: (
+  // Return an upload destination for the raw file (typically a presigned URL).
+  // Not needed when `multipart` is configured.
+  getUploadUrl?: (
     file: File,
     ctx: OffloadContext
   ) => Promise<{ url: string; method?: "PUT" | "POST"; fields?: Record<string, string>; headers?: Record<string, string>; key?: string }>;
@@ -24,13 +33,93 @@ export interface BackendClientHandlers {
   pollResult: (
     jobId: string,
     ctx: OffloadContext
-  ) => Promise<{ done: boolean; error?: string; rows?: DataRow[] }>;
+  ) => Promise<OffloadJobStatus>;
+
+  // Optional chunked upload (S3-style multipart); takes precedence over getUploadUrl
+  multipart?: MultipartUploadHandlers;
+
+  // Optional paged results. When provided and a finished job reports a
+  // summary without rows, review fetches rows on demand via this cursor API.
+  fetchResultPage?: (args: {
+    jobId: string;
+    cursor?: string;
+    limit: number;
+    filter: ReviewFilter;
+    ctx: OffloadContext;
+  }) => Promise<{ rows: DataRow[]; nextCursor?: string | null }>;
+}
+
+export interface UploadedPart {
+  partNumber: number; // 1-based
+  etag?: string;
+}
+
+export interface MultipartUploadHandlers {
+  // Create an upload session for the file
+  initiate: (
+    file: File,
+    ctx: OffloadContext
+  ) => Promise<{ uploadId: string; key?: string }>;
+
+  // Return a destination for a single part (typically a presigned URL)
+  getPartUrl: (args: {
+    uploadId: string;
+    key?: string;
+    partNumber: number;
+    ctx: OffloadContext;
+  }) => Promise<{ url: string; method?: "PUT" | "POST"; headers?: Record<string, string> }>;
+
+  // Finalize the upload once every part is confirmed
+  complete: (args: {
+    uploadId: string;
+    key?: string;
+    parts: UploadedPart[];
+    ctx: OffloadContext;
+  }) => Promise<{ key?: string } | void>;
+
+  // Optional: parts the server already holds, consulted when resuming
+  listParts?: (args: {
+    uploadId: string;
+    key?: string;
+    ctx: OffloadContext;
+  }) => Promise<UploadedPart[]>;
+}
+
+export interface OffloadJobStatus {
+  done: boolean;
+  error?: string;
+  // Final rows when done; rows processed so far while the job is running
+  rows?: DataRow[];
+  processedRows?: number;
+  totalRows?: number;
+  stage?: string; // e.g. "Parsing", "Validating"
+  // Server-side counts; required for paged results
+  summary?: ResultSummary;
+}
+
+export interface OffloadResult {
+  jobId: string;
+  rows: DataRow[];
+  summary?: ResultSummary;
+  // True when rows must be fetched with fetchResultPage
+  paged: boolean;
+}
+
+export interface OffloadProgress {
+  stage: string;
+  processedRows?: number;
+  totalRows?: number;
+  // 0..1 when the server reports a total, otherwise undefined
+  fraction?: number;
+  partialRows?: DataRow[];
 }
 
 export interface OffloadContext {
   sheetSlug: string;
   pipelineMappings?: PipelineMappings;
   workbook?: CreateWorkbookConfig;
+  // Aborted when the user cancels processing; handlers may forward it to fetch
+  signal?: AbortSignal;
 }
 
 let handlers: BackendClientHandlers | null = null;
@@ -43,12 +132,34 @@ export function isBackendClientConfigured(): boolean {
   return handlers !== null;
 }
 
-// Internal backoff config (not exported to keep API surface minimal)
+// Internal backoff defaults (overridable via `processing.offload`)
 const POLL_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
 const INITIAL_DELAY_MS = 1000; // 1s
 const MAX_DELAY_MS = 10000; // 10s
 const BACKOFF_FACTOR = 1.5; // 1.0, 1.5, 2.25, ...
 const JITTER_RATIO = 0.2; // +/-20%
+const PART_SIZE_BYTES = 8 * 1024 * 1024; // 8MB
+const MAX_PART_RETRIES = 3;
+
+const resolveOffloadOptions = (
+  workbook?: CreateWorkbookConfig
+): Required<OffloadOptions> => {
+  const o = workbook?.processing?.offload || {};
+  return {
+    thresholdBytes: o.thresholdBytes ?? OFFLOAD_THRESHOLD_BYTES,
+    pollTimeoutMs: o.pollTimeoutMs ?? POLL_TIMEOUT_MS,
+    initialDelayMs: o.initialDelayMs ?? INITIAL_DELAY_MS,
+    maxDelayMs: o.maxDelayMs ?? MAX_DELAY_MS,
+    backoffFactor: o.backoffFactor ?? BACKOFF_FACTOR,
+    partSizeBytes: o.partSizeBytes ?? PART_SIZE_BYTES,
+    maxPartRetries: o.maxPartRetries ?? MAX_PART_RETRIES,
+  };
+};
+
+// True when the file exceeds the workbook's threshold and a backend is configured
+export function shouldOffloadFile(file: File, workbook?: CreateWorkbookConfig): boolean {
+  return isBackendClientConfigured() && file.size > resolveOffloadOptions(workbook).thresholdBytes;
+}
 
 function withJitter(ms: number): number {
   const jitter = ms * JITTER_RATIO;
@@ -57,21 +168,48 @@ function withJitter(ms: number): number {
   return Math.floor(min + Math.random() * (max - min));
 }
 
-export async function offloadAndProcessFile(file: File, ctx: OffloadContext): Promise<DataRow[]> {
-  if (!handlers) {
-    throw new Error("Backend client is not configured");
-  }
+const abortError = () => {
+  const err = new Error("Processing cancelled");
+  err.name = "AbortError";
+  return err;
+};
+
+export const isAbortError = (err: unknown): boolean =>
+  !!err && typeof err === "object" && (err as Error).name === "AbortError";
 
-  // 1) Get upload destination
-  const upload = await handlers.getUploadUrl(file, ctx);
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw abortError();
+};
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+async function uploadFile(
+  file: File,
+  ctx: OffloadContext,
+  getUploadUrl: NonNullable<BackendClientHandlers["getUploadUrl"]>
+): Promise<string | undefined> {
+  const { signal } = ctx;
+  const upload = await getUploadUrl(file, ctx);
+  throwIfAborted(signal);
 
-  // 2) Upload the file
   if (upload.method === "POST" && upload.fields) {
     // Multipart/form-data style (S3 POST)
     const form = new FormData();
     Object.entries(upload.fields).forEach(([k, v]) => form.append(k, v));
     form.append("file", file);
-    const res = await fetch(upload.url, { method: "POST", body: form });
+    const res = await fetch(upload.url, { method: "POST", body: form, signal });
     if (!res.ok) throw new Error(`Upload failed with status ${res.status}`);
   } else {
     // Default to simple PUT
@@ -79,38 +217,206 @@ export async function offloadAndProcessFile(file: File, ctx: OffloadContext): Pr
       method: upload.method || "PUT",
       body: file,
       headers: { "Content-Type": file.type || "application/octet-stream", ...(upload.headers || {}) },
+      signal,
     });
     if (!res.ok) throw new Error(`Upload failed with status ${res.status}`);
   }
+  return upload.key;
+}
+
+interface MultipartSession {
+  uploadId: string;
+  key?: string;
+  partSize: number;
+  parts: UploadedPart[];
+}
+
+// Unfinished multipart uploads keyed by file identity, so retrying the same
+// file resumes after the last confirmed part instead of starting over
+const multipartSessions = new Map<string, MultipartSession>();
 
-  // 3) Start processing
-  const { jobId } = await handlers.startProcessing({ file, uploadKey: upload.key, ctx });
+const sessionKey = (file: File, ctx: OffloadContext) =>
+  [ctx.sheetSlug, file.name, file.size, file.lastModified].join(":");
 
-  // 4) Poll for result with exponential backoff and jitter
+async function uploadPartWithRetry(
+  multipart: MultipartUploadHandlers,
+  session: MultipartSession,
+  partNumber: number,
+  body: Blob,
+  ctx: OffloadContext,
+  opts: Required<OffloadOptions>
+): Promise<UploadedPart> {
+  let waitMs = opts.initialDelayMs;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const dest = await multipart.getPartUrl({
+        uploadId: session.uploadId,
+        key: session.key,
+        partNumber,
+        ctx,
+      });
+      const res = await fetch(dest.url, {
+        method: dest.method || "PUT",
+        body,
+        headers: dest.headers,
+        signal: ctx.signal,
+      });
+      if (!res.ok) {
+        throw new Error(`Upload of part ${partNumber} failed with status ${res.status}`);
+      }
+      return { partNumber, etag: res.headers.get("ETag") || undefined };
+    } catch (err) {
+      if (isAbortError(err) || attempt >= opts.maxPartRetries) throw err;
+    }
+    await delay(withJitter(waitMs), ctx.signal);
+    waitMs = Math.min(opts.maxDelayMs, Math.floor(waitMs * opts.backoffFactor));
+  }
+}
+
+async function uploadFileInParts(
+  file: File,
+  ctx: OffloadContext,
+  multipart: MultipartUploadHandlers,
+  opts: Required<OffloadOptions>,
+  onProgress?: (progress: OffloadProgress) => void
+): Promise<string | undefined> {
+  const id = sessionKey(file, ctx);
+  let session = multipartSessions.get(id);
+  if (session && session.partSize !== opts.partSizeBytes) session = undefined;
+
+  if (session && multipart.listParts) {
+    try {
+      session.parts = await multipart.listParts({
+        uploadId: session.uploadId,
+        key: session.key,
+        ctx,
+      });
+    } catch {
+      // Fall back to the parts we recorded locally
+    }
+  }
+  if (!session) {
+    const created = await multipart.initiate(file, ctx);
+    session = {
+      uploadId: created.uploadId,
+      key: created.key,
+      partSize: opts.partSizeBytes,
+      parts: [],
+    };
+    multipartSessions.set(id, session);
+  }
+
+  const totalParts = Math.max(1, Math.ceil(file.size / session.partSize));
+  const confirmed = new Map<number, UploadedPart>();
+  for (const part of session.parts) confirmed.set(part.partNumber, part);
+  const report = () =>
+    onProgress?.({ stage: "Uploading", fraction: Math.min(1, confirmed.size / totalParts) });
+  report();
+
+  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+    if (confirmed.has(partNumber)) continue;
+    throwIfAborted(ctx.signal);
+    const start = (partNumber - 1) * session.partSize;
+    const body = file.slice(start, Math.min(file.size, start + session.partSize));
+    const part = await uploadPartWithRetry(multipart, session, partNumber, body, ctx, opts);
+    confirmed.set(partNumber, part);
+    session.parts = Array.from(confirmed.values()).sort((a, b) => a.partNumber - b.partNumber);
+    report();
+  }
+
+  throwIfAborted(ctx.signal);
+  const result = await multipart.complete({
+    uploadId: session.uploadId,
+    key: session.key,
+    parts: session.parts,
+    ctx,
+  });
+  multipartSessions.delete(id);
+  return (result && result.key) || session.key;
+}
+
+export async function offloadAndProcessFile(
+  file: File,
+  ctx: OffloadContext,
+  onProgress?: (progress: OffloadProgress) => void
+): Promise<OffloadResult> {
+  if (!handlers) {
+    throw new Error("Backend client is not configured");
+  }
+  const { signal } = ctx;
+  const opts = resolveOffloadOptions(ctx.workbook);
+  onProgress?.({ stage: "Uploading" });
+
+  // 1) Upload the file, in parts when multipart handlers are configured
+  let uploadKey: string | undefined;
+  if (handlers.multipart) {
+    uploadKey = await uploadFileInParts(file, ctx, handlers.multipart, opts, onProgress);
+  } else if (handlers.getUploadUrl) {
+    uploadKey = await uploadFile(file, ctx, handlers.getUploadUrl);
+  } else {
+    throw new Error("Backend client has no upload handler");
+  }
+
+  // 2) Start processing
+  throwIfAborted(signal);
+  const { jobId } = await handlers.startProcessing({ file, uploadKey, ctx });
+  onProgress?.({ stage: "Processing" });
+
+  // 3) Poll for result with exponential backoff and jitter
   const start = Date.now();
-  const delay = (ms: number) => new Promise((r) => setTimeout(r, ms));
   let attempt = 0;
-  let waitMs = INITIAL_DELAY_MS;
+  let waitMs = opts.initialDelayMs;
 
   // eslint-disable-next-line no-constant-condition
   while (true) {
-    if (Date.now() - start > POLL_TIMEOUT_MS) {
+    throwIfAborted(signal);
+    if (Date.now() - start > opts.pollTimeoutMs) {
       throw new Error("Processing timed out");
     }
 
+    let status: OffloadJobStatus | null = null;
     try {
-      const status = await handlers.pollResult(jobId, ctx);
-      if (status.done) {
-        if (status.error) throw new Error(status.error);
-        return status.rows || [];
-      }
+      status = await handlers.pollResult(jobId, ctx);
     } catch (err) {
       // Swallow transient errors during polling and continue with backoff
       // You can log err for diagnostics if desired
     }
+    throwIfAborted(signal);
+
+    if (status?.done) {
+      if (status.error) throw new Error(status.error);
+      const paged = !status.rows && !!status.summary && !!handlers.fetchResultPage;
+      return { jobId, rows: status.rows || [], summary: status.summary, paged };
+    }
+    if (status) {
+      const { processedRows, totalRows } = status;
+      onProgress?.({
+        stage: status.stage || "Processing",
+        processedRows,
+        totalRows,
+        fraction:
+          processedRows != null && totalRows
+            ? Math.min(1, processedRows / totalRows)
+            : undefined,
+        partialRows: status.rows,
+      });
+    }
 
-    await delay(withJitter(waitMs));
+    await delay(withJitter(waitMs), signal);
     attempt += 1;
-    waitMs = Math.min(MAX_DELAY_MS, Math.floor(waitMs * BACKOFF_FACTOR));
+    waitMs = Math.min(opts.maxDelayMs, Math.floor(waitMs * opts.backoffFactor));
+  }
+}
+
+export async function fetchResultPage(
+  jobId: string,
+  ctx: OffloadContext,
+  page: { cursor?: string; limit: number; filter: ReviewFilter }
+): Promise<{ rows: DataRow[]; nextCursor: string | null }> {
+  if (!handlers?.fetchResultPage) {
+    throw new Error("Backend client does not support paged results");
   }
+  const res = await handlers.fetchResultPage({ jobId, ...page, ctx });
+  throwIfAborted(ctx.signal);
+  return { rows: res.rows || [], nextCursor: res.nextCursor ?? null };
 }
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyConditionalRules,
+  detectHeaderRow,
+  editedValue,
+  transformValue,
+} from "./dataProcessing";
+import { resolveFieldLocales } from "./localeParsing";
+import type { FieldConfig } from "../types";
+
+describe("detectHeaderRow", () => {
+  it("keeps the first row of an all-text file", () => {
+    const rows = [
+      ["first_name", "last_name", "email", "company"],
+      ["Ann", "Lee", "ann@x.com", ""],
+      ["Bo", "Kim", "bo@x.com", "Acme"],
+      ["Cy", "Park", "cy@x.com", "Globex"],
+      ["Di", "Ng", "di@x.com", "Initech"],
+    ];
+    expect(detectHeaderRow(rows)).toBe(0);
+  });
+
+  it("skips a title banner and blank lines above the header", () => {
+    const rows = [
+      ["Quarterly sales report"],
+      ["Exported 2024-03-01"],
+      [],
+      ["Region", "Units", "Revenue", "Updated"],
+      ["North", 10, 1200.5, "2024-01-31"],
+      ["South", 7, 830, "2024-01-31"],
+    ];
+    expect(detectHeaderRow(rows)).toBe(3);
+  });
+
+  it("moves past a sparse label row when the header below is clearly better", () => {
+    const rows = [
+      ["Customer", "", "Order", ""],
+      ["Name", "Email", "Total", "Date"],
+      ["Ann", "ann@x.com", 12.5, "2024-01-02"],
+      ["Bo", "bo@x.com", 8, "2024-01-03"],
+    ];
+    expect(detectHeaderRow(rows)).toBe(1);
+  });
+
+  it("falls back to the first row when nothing has content", () => {
+    expect(detectHeaderRow([[], ["", null]])).toBe(0);
+  });
+});
+
+describe("transformValue with a day-first locale", () => {
+  const field: FieldConfig = { key: "dob", label: "Born", type: "date", dateOutput: "date" };
+
+  it("reads dates day first when no format is inferred", () => {
+    const [resolved] = resolveFieldLocales(
+      [{ ...field, locale: { dayFirst: true, inferDateFormat: false } }],
+      [],
+      []
+    );
+    expect(transformValue("03/04/2024", "date", resolved)).toBe("2024-04-03");
+  });
+
+  it("reads dates day first in a column too mixed to infer a format", () => {
+    const rows = ["03/04/2024", "2024-05-06", "n/a", "unknown"].map((dob) => ({ DOB: dob }));
+    const [resolved] = resolveFieldLocales([field], rows, [{ source: "DOB", target: "dob" }], {
+      dayFirst: true,
+    });
+    expect(resolved.locale?.dateFormats).toBeUndefined();
+    expect(transformValue("03/04/2024", "date", resolved)).toBe("2024-04-03");
+  });
+});
+
+describe("editedValue", () => {
+  it("stores dates and amounts as the import converts them", () => {
+    const dob: FieldConfig = {
+      key: "dob",
+      label: "Born",
+      type: "date",
+      dateOutput: "date",
+      locale: { dateFormats: ["DD/MM/YYYY"] },
+    };
+    expect(editedValue("03/04/2024", dob)).toBe("2024-04-03");
+    const price: FieldConfig = { key: "price", label: "Price", type: "currency" };
+    expect(editedValue("€1,200.50", price)).toBe(1200.5);
+    const meta: FieldConfig = { key: "meta", label: "Meta", type: "json" };
+    expect(editedValue('{"a":1}', meta)).toEqual({ a: 1 });
+  });
+
+  it("keeps the typed text when it doesn't parse", () => {
+    const dob: FieldConfig = { key: "dob", label: "Born", type: "date" };
+    expect(editedValue("next tuesday", dob)).toBe("next tuesday");
+    const price: FieldConfig = { key: "price", label: "Price", type: "currency" };
+    expect(editedValue("twelve", price)).toBe("twelve");
+    const meta: FieldConfig = { key: "meta", label: "Meta", type: "json" };
+    expect(editedValue("{a:", meta)).toBe("{a:");
+    expect(editedValue("", dob)).toBe("");
+  });
+});
+
+describe("applyConditionalRules", () => {
+  const fields: FieldConfig[] = [
+    { key: "type", label: "Type", type: "string" },
+    {
+      key: "tax_id",
+      label: "Tax ID",
+      type: "string",
+      required: true,
+      hiddenWhen: { field: "type", notEquals: "business" },
+    },
+  ];
+
+  it("requires a statically required field once it is shown", () => {
+    expect(applyConditionalRules({ type: "personal", tax_id: "" }, 0, fields, [])).toEqual([]);
+    const errors = applyConditionalRules({ type: "business", tax_id: "" }, 0, fields, []);
+    expect(errors.map((e) => e.message)).toEqual(["Tax ID is required"]);
+  });
+
+  it("doesn't repeat the static required error", () => {
+    const existing = [
+      { row: 0, field: "tax_id", message: "Tax ID is required", severity: "error" as const },
+    ];
+    const errors = applyConditionalRules({ type: "business", tax_id: "" }, 0, fields, existing);
+    expect(errors).toEqual(existing);
+  });
+});
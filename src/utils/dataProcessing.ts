@@ -9,103 +9,694 @@ import {
   DataRow,
   FieldMapping,
   PipelineMappings,
+  PipelineOptions,
   TransformRegistry,
   ValidationRegistry,
+  ImportedWorksheet,
+  SheetConfig,
+  DetectedFormat,
+  ImportDiagnostics,
+  ColumnCountMismatch,
+  EnumOption,
+  DistinctValue,
+  ParseLocale,
+  RowValidator,
+  AsyncValidator,
+  AsyncValidationRegistry,
+  FieldCondition,
+  ConditionalValues,
+  UniqueConstraint,
+  ExistingKeys,
 } from "../types";
+import {
+  parseDateValue,
+  parseLocaleNumber,
+  partsOfInstant,
+  partsToInstant,
+} from "./localeParsing";
+import type { DateParts, ParsedDate } from "./localeParsing";
+
+// Header row detection
+// Leading rows scanned for the header (exports often start with titles/banners)
+export const HEADER_SCAN_ROWS = 20;
+// A later full row must score this much higher to replace an earlier one, so data
+// rows that happen to sit above denser rows don't win over the real header
+const HEADER_SCORE_MARGIN = 0.1;
+
+const isBlankCell = (v: any) =>
+  v === null || v === undefined || String(v).trim() === "";
+const looksNumeric = (v: any) =>
+  typeof v === "number" ||
+  (typeof v === "string" &&
+    v.trim() !== "" &&
+    !isNaN(Number(v.replace(/[,\s$€£%]/g, ""))));
+const looksDate = (v: any) =>
+  v instanceof Date ||
+  (typeof v === "string" && /\d/.test(v) && !isNaN(Date.parse(v)));
+
+// Score the leading rows by fill density, share of text labels, uniqueness and
+// whether the rows below look like data (numbers/dates under text headers). The
+// first row past the titles and blanks is kept unless a later one is clearly better.
+export const detectHeaderRow = (
+  rows: any[][],
+  scanRows: number = HEADER_SCAN_ROWS
+): number => {
+  const window = rows.slice(0, scanRows);
+  const filled = window.map((r) => (r || []).filter((v) => !isBlankCell(v)));
+  const width = Math.max(0, ...filled.map((c) => c.length));
+  if (width === 0) return 0;
+
+  let best = -1;
+  let bestScore = -Infinity;
+  window.forEach((row, i) => {
+    const cells = filled[i];
+    // Titles, banners and blank lines fill only a few columns
+    if (cells.length < Math.max(1, width * 0.5)) return;
+
+    const textRatio =
+      cells.filter((v) => !looksNumeric(v) && !looksDate(v)).length / cells.length;
+    const uniqueRatio =
+      new Set(cells.map((v) => String(v).trim().toLowerCase())).size / cells.length;
+    const below = window.slice(i + 1, i + 6);
+    const belowFill = below.length
+      ? below.reduce(
+          (acc, r) =>
+            acc + Math.min(1, (r || []).filter((v) => !isBlankCell(v)).length / width),
+          0
+        ) / below.length
+      : 0;
+    let textColumns = 0;
+    let typeShifts = 0;
+    (row || []).forEach((v, col) => {
+      if (isBlankCell(v) || looksNumeric(v) || looksDate(v)) return;
+      textColumns++;
+      if (below.some((r) => r && (looksNumeric(r[col]) || looksDate(r[col])))) typeShifts++;
+    });
+    const typeShift = textColumns ? typeShifts / textColumns : 0;
+
+    const score =
+      (cells.length / width) * 0.35 +
+      textRatio * 0.3 +
+      uniqueRatio * 0.15 +
+      belowFill * 0.1 +
+      typeShift * 0.1;
+    if (best === -1 || score >= bestScore + HEADER_SCORE_MARGIN) {
+      bestScore = score;
+      best = i;
+    }
+  });
+  return Math.max(0, best);
+};
+
+// Trim header cells, name blank ones and de-duplicate (`name`, `name_2`, ...)
+const normalizeHeaders = (raw: any[]): string[] => {
+  const used = new Set<string>();
+  return Array.from(raw, (h, i) => {
+    const base = h === null || h === undefined ? "" : String(h).trim();
+    let name = base || `Column ${i + 1}`;
+    if (used.has(name)) {
+      let n = 2;
+      while (used.has(`${name}_${n}`)) n++;
+      name = `${name}_${n}`;
+    }
+    used.add(name);
+    return name;
+  });
+};
+
+// Header row for the scanned rows; -1 when the file has no header row
+const resolveHeaderRowIndex = (preview: any[][], options?: PipelineOptions) =>
+  options?.skipHeaderRow === false ? -1 : detectHeaderRow(preview);
+
+const headersFor = (preview: any[][], headerRowIndex: number): string[] => {
+  if (headerRowIndex >= 0) return normalizeHeaders(preview[headerRowIndex] || []);
+  const width = Math.max(0, ...preview.map((r) => (r || []).length));
+  return normalizeHeaders(new Array(width).fill(""));
+};
+
+const cellsToRow = (headers: string[], cells: any[]): Record<string, any> => {
+  const row: Record<string, any> = {};
+  headers.forEach((header, index) => {
+    const v = cells[index];
+    row[header] = v === null || v === undefined ? "" : typeof v === "string" ? v.trim() : v;
+  });
+  return row;
+};
+
+// Cells up to the last non-blank one
+const filledWidth = (cells: any[]) => {
+  let n = (cells || []).length;
+  while (n > 0 && isBlankCell(cells[n - 1])) n--;
+  return n;
+};
+
+// Rebuild headers/rows using another of the scanned rows as the header
+export const applyHeaderRow = (
+  data: ImportedData,
+  headerRowIndex: number
+): ImportedData => {
+  const preview = data.rawPreview;
+  const current = data.headerRowIndex ?? 0;
+  if (!preview || headerRowIndex === current) return data;
+  if (headerRowIndex < -1 || headerRowIndex >= preview.length) return data;
+
+  const body = preview.slice(headerRowIndex + 1);
+  // Rows past the scan window are keyed by the old headers; re-key by position
+  const tail = data.rows
+    .slice(Math.max(0, preview.length - (current + 1)))
+    .map((row) => data.headers.map((h) => row[h]));
+  // Cells past the new header's width get generated names ("Column 9") rather than being dropped
+  const headerCells = headerRowIndex >= 0 ? preview[headerRowIndex] || [] : [];
+  const width = [...body, ...tail].reduce(
+    (w, cells) => Math.max(w, filledWidth(cells)),
+    headerCells.length
+  );
+  const headers = normalizeHeaders(Array.from({ length: width }, (_, i) => headerCells[i]));
+  const rows = [...body, ...tail].map((cells) => cellsToRow(headers, cells));
+  return { ...data, headers, rows, headerRowIndex };
+};
+
+// Type sniffing (PipelineOptions.detectTypes)
+const NUMERIC_CELL = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const isNumericCell = (v: any) => {
+  if (typeof v === "number") return !isNaN(v);
+  const s = String(v).trim();
+  // Leading zeros mark codes (zip, account numbers) rather than numbers
+  return NUMERIC_CELL.test(s) && !/^[-+]?0\d/.test(s);
+};
+const isBooleanCell = (v: any) =>
+  typeof v === "boolean" || ["true", "false"].includes(String(v).trim().toLowerCase());
+
+// Convert columns whose non-blank values are all numbers or all booleans
+export const inferColumnTypes = (data: ImportedData): ImportedData => {
+  const converters: [string, (v: any) => any][] = [];
+  for (const header of data.headers) {
+    let numeric = true;
+    let boolean = true;
+    let seen = false;
+    for (const row of data.rows) {
+      const v = row[header];
+      if (isBlankCell(v)) continue;
+      seen = true;
+      numeric = numeric && isNumericCell(v);
+      boolean = boolean && isBooleanCell(v);
+      if (!numeric && !boolean) break;
+    }
+    if (!seen) continue;
+    if (numeric) converters.push([header, (v) => Number(v)]);
+    else if (boolean)
+      converters.push([header, (v) => v === true || String(v).trim().toLowerCase() === "true"]);
+  }
+  if (converters.length === 0) return data;
+
+  const rows = data.rows.map((row) => {
+    const out = { ...row };
+    for (const [header, convert] of converters) {
+      if (!isBlankCell(out[header])) out[header] = convert(out[header]);
+    }
+    return out;
+  });
+  return { ...data, rows };
+};
 
 // File parsing utilities
-export const parseCSV = (file: File): Promise<ImportedData> => {
+const SNIFF_BYTES = 512 * 1024;
+// Column-count mismatches listed individually in diagnostics (the rest are only counted)
+const MAX_DIAGNOSTIC_ROWS = 100;
+
+// Parse failure that carries whatever diagnostics were gathered before it
+export const importError = (
+  message: string,
+  diagnostics?: ImportDiagnostics
+): Error & { diagnostics?: ImportDiagnostics } =>
+  Object.assign(new Error(message), { diagnostics });
+
+// Guess a text encoding from the leading bytes; falls back to UTF-8
+const sniffEncoding = (buffer: ArrayBuffer): { encoding: string; confidence: number } => {
+  const sampleBytes = new Uint8Array(
+    buffer.slice(0, Math.min(buffer.byteLength, SNIFF_BYTES))
+  );
+  let sampleString = "";
+  try {
+    sampleString = new TextDecoder("windows-1252").decode(sampleBytes);
+  } catch {
+    sampleString = Array.from(sampleBytes)
+      .map((c) => String.fromCharCode(c))
+      .join("");
+  }
+  const detection = detectEncoding(sampleString);
+  const confidence = detection.confidence || 0;
+  if (!detection.encoding || confidence < 0.2) return { encoding: "utf-8", confidence };
+  return { encoding: detection.encoding.toLowerCase(), confidence };
+};
+
+const readArrayBuffer = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsArrayBuffer(blob);
+  });
+
+// Decode a whole file using the sniffed encoding
+const readText = async (
+  file: File,
+  forcedEncoding?: string
+): Promise<{ text: string; diagnostics: ImportDiagnostics }> => {
+  const buffer = await readArrayBuffer(file);
+  let { encoding, confidence } = forcedEncoding
+    ? { encoding: forcedEncoding, confidence: undefined }
+    : sniffEncoding(buffer);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    encoding = "utf-8";
+    decoder = new TextDecoder(encoding);
+  }
+  return {
+    text: decoder.decode(buffer),
+    diagnostics: { encoding, encodingConfidence: confidence },
+  };
+};
+
+// Encodings offered when the detected one is wrong (WHATWG labels)
+export const TEXT_ENCODINGS: { value: string; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "windows-1252", label: "Western (Windows-1252)" },
+  { value: "iso-8859-1", label: "Western (ISO-8859-1)" },
+  { value: "iso-8859-2", label: "Central European (ISO-8859-2)" },
+  { value: "windows-1250", label: "Central European (Windows-1250)" },
+  { value: "windows-1251", label: "Cyrillic (Windows-1251)" },
+  { value: "koi8-r", label: "Cyrillic (KOI8-R)" },
+  { value: "iso-8859-7", label: "Greek (ISO-8859-7)" },
+  { value: "windows-1254", label: "Turkish (Windows-1254)" },
+  { value: "shift_jis", label: "Japanese (Shift_JIS)" },
+  { value: "euc-jp", label: "Japanese (EUC-JP)" },
+  { value: "iso-2022-jp", label: "Japanese (ISO-2022-JP)" },
+  { value: "gb18030", label: "Chinese Simplified (GB18030)" },
+  { value: "big5", label: "Chinese Traditional (Big5)" },
+  { value: "euc-kr", label: "Korean (EUC-KR)" },
+];
+
+const ENCODING_PREVIEW_BYTES = 64 * 1024;
+
+// First rows of a text file decoded with the given encoding, for a live preview
+export const previewTextFile = async (
+  file: File,
+  encoding: string,
+  delimiter?: string,
+  rows = 6
+): Promise<string[][]> => {
+  const buffer = await readArrayBuffer(file.slice(0, ENCODING_PREVIEW_BYTES));
+  let text: string;
+  try {
+    text = new TextDecoder(encoding).decode(buffer);
+  } catch {
+    throw new Error(`Unsupported encoding: ${encoding}`);
+  }
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  // The last line of a cut-off sample may be incomplete
+  if (file.size > ENCODING_PREVIEW_BYTES) lines.pop();
+  const head = lines.slice(0, rows);
+  if (!delimiter) return head.map((line) => [line]);
+  return Papa.parse<string[]>(head.join("\n"), { delimiter }).data;
+};
+
+// Format detection
+const FORMAT_SNIFF_BYTES = 64 * 1024;
+const FORMAT_SNIFF_LINES = 50;
+const DELIMITER_CANDIDATES = ["\t", "|", ",", ";"];
+const EXCEL_EXTENSIONS = [".xlsx", ".xlsm", ".xls", ".ods"];
+const JSON_EXTENSIONS = [".json", ".ndjson", ".jsonl"];
+
+// Count a delimiter outside of double-quoted sections
+const countDelimiter = (line: string, delimiter: string): number => {
+  let count = 0;
+  let quoted = false;
+  for (const ch of line) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+// Pick the delimiter that splits most lines into the same number of fields
+export const detectDelimiter = (lines: string[]): string | null => {
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map((line) => countDelimiter(line, delimiter));
+    const freq = new Map<number, number>();
+    for (const c of counts) if (c > 0) freq.set(c, (freq.get(c) || 0) + 1);
+    let modeHits = 0;
+    for (const hits of freq.values()) modeHits = Math.max(modeHits, hits);
+    const score = lines.length ? modeHits / lines.length : 0;
+    // Candidates are ordered by preference, so ties keep the earlier one
+    if (score >= 0.8 && score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Column starts for fixed-width text: positions where every line has a gap
+// before and at least one line has text
+export const suggestFixedWidthColumns = (lines: string[]): number[] => {
+  const width = Math.max(0, ...lines.map((l) => l.length));
+  const blank = Array.from({ length: width }, (_, p) =>
+    lines.every((l) => p >= l.length || l[p] === " ")
+  );
+  const columns: number[] = [];
+  for (let p = 0; p < width; p++) {
+    if (!blank[p] && (p === 0 || blank[p - 1])) columns.push(p);
+  }
+  if (columns.length > 0) columns[0] = 0;
+  return columns;
+};
+
+// Decide how to parse a file from its content (extension only breaks ties)
+export const detectFileFormat = async (file: File): Promise<DetectedFormat> => {
+  const head = new Uint8Array(
+    await readArrayBuffer(file.slice(0, Math.min(file.size, FORMAT_SNIFF_BYTES)))
+  );
+  const isZip = head[0] === 0x50 && head[1] === 0x4b && head[2] === 0x03 && head[3] === 0x04;
+  const isOle = head[0] === 0xd0 && head[1] === 0xcf && head[2] === 0x11 && head[3] === 0xe0;
+  const name = file.name.toLowerCase();
+  if (isZip || isOle || EXCEL_EXTENSIONS.some((ext) => name.endsWith(ext))) {
+    return { kind: "excel" };
+  }
+
+  let text = new TextDecoder("windows-1252").decode(head).replace(/^\u00ef\u00bb\u00bf/, "");
+  const firstChar = text.trimStart()[0];
+  if (JSON_EXTENSIONS.some((ext) => name.endsWith(ext)) || firstChar === "[" || firstChar === "{") {
+    return { kind: "json" };
+  }
+  // Drop the trailing partial line of a truncated sample
+  if (file.size > FORMAT_SNIFF_BYTES) text = text.slice(0, text.lastIndexOf("\n") + 1);
+  const lines = text
+    .split(/\r?\n/)
+    .filter((l) => l.trim() !== "")
+    .slice(0, FORMAT_SNIFF_LINES);
+
+  const delimiter = detectDelimiter(lines);
+  if (delimiter) return { kind: "delimited", delimiter };
+  const columns = suggestFixedWidthColumns(lines);
+  if (lines.length > 1 && columns.length > 1) {
+    return { kind: "fixed-width", columns, sampleLines: lines };
+  }
+  // Single column text
+  return { kind: "delimited", delimiter: "," };
+};
+
+// Build ImportedData from raw rows of cells (worksheets, fixed-width text)
+const matrixToImportedData = (
+  matrix: any[][],
+  meta: Pick<ImportedData, "fileName" | "fileType" | "worksheetName" | "diagnostics">,
+  options?: PipelineOptions
+): ImportedData => {
+  const preview = matrix.slice(0, HEADER_SCAN_ROWS);
+  const headerRowIndex = resolveHeaderRowIndex(preview, options);
+  const headers = headersFor(preview, headerRowIndex);
+  const rows = matrix
+    .slice(headerRowIndex + 1)
+    .map((row) => cellsToRow(headers, row || []));
+
+  const data: ImportedData = {
+    headers,
+    rows,
+    ...meta,
+    headerRowIndex,
+    rawPreview: preview,
+  };
+  return options?.detectTypes ? inferColumnTypes(data) : data;
+};
+
+export const splitFixedWidthLine = (line: string, columns: number[]): string[] =>
+  columns.map((start, i) => line.slice(start, columns[i + 1]).trim());
+
+export const parseFixedWidth = async (
+  file: File,
+  columns: number[],
+  options?: PipelineOptions
+): Promise<ImportedData> => {
+  const { text, diagnostics } = await readText(file, options?.encoding);
+  const starts = [...columns].sort((a, b) => a - b);
+  const matrix = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => splitFixedWidthLine(line, starts));
+  if (matrix.length === 0) throw importError("Empty file", diagnostics);
+  return matrixToImportedData(
+    matrix,
+    { fileName: file.name, fileType: "fixed-width", diagnostics },
+    options
+  );
+};
+
+// Clipboard paste
+// Cells of the first <table> in clipboard HTML (Excel, Google Sheets)
+const htmlTableToMatrix = (html: string): any[][] | null => {
+  if (typeof DOMParser === "undefined") return null;
+  const table = new DOMParser().parseFromString(html, "text/html").querySelector("table");
+  if (!table) return null;
+  const matrix: any[][] = [];
+  for (const tr of Array.from(table.rows)) {
+    const cells: string[] = [];
+    for (const cell of Array.from(tr.cells)) {
+      cells.push((cell.textContent || "").trim());
+      for (let i = 1; i < (cell.colSpan || 1); i++) cells.push("");
+    }
+    matrix.push(cells);
+  }
+  return matrix;
+};
+
+// Turn a pasted spreadsheet selection (HTML table or TSV text) into ImportedData
+export const parseClipboardData = (
+  text: string,
+  html?: string,
+  options?: PipelineOptions
+): ImportedData | null => {
+  let matrix = html ? htmlTableToMatrix(html) : null;
+  if (!matrix || matrix.length === 0) {
+    if (!text || !text.trim()) return null;
+    // Spreadsheets quote cells containing tabs or line breaks, so let Papa split it
+    const parsed = Papa.parse<any[]>(text, { delimiter: "\t", skipEmptyLines: true });
+    matrix = parsed.data;
+  }
+  matrix = matrix.filter((cells) => cells.some((v) => !isBlankCell(v)));
+  if (matrix.length === 0) return null;
+  return matrixToImportedData(
+    matrix,
+    { fileName: "Pasted data", fileType: "clipboard" },
+    options
+  );
+};
+
+// JSON / NDJSON
+// Arrays of objects longer than this are kept as one JSON-encoded column
+const JSON_ARRAY_COLUMNS = 10;
+
+const isPlainObject = (v: any) =>
+  v !== null && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date);
+
+// Flatten nested objects into dotted keys (`address.city`). Arrays of scalars
+// are joined; short arrays of objects are indexed (`items.0.sku`).
+export const flattenRecord = (
+  value: any,
+  prefix = "",
+  out: Record<string, any> = {}
+): Record<string, any> => {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0 && prefix) out[prefix] = "";
+    for (const [key, child] of entries) {
+      flattenRecord(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return out;
+  }
+  if (Array.isArray(value)) {
+    const key = prefix || "value";
+    if (!value.some((item) => item !== null && typeof item === "object")) {
+      out[key] = value.filter((item) => item !== null && item !== undefined).join(", ");
+    } else if (value.length <= JSON_ARRAY_COLUMNS) {
+      value.forEach((item, i) => flattenRecord(item, `${key}.${i}`, out));
+    } else {
+      out[key] = JSON.stringify(value);
+    }
+    return out;
+  }
+  out[prefix || "value"] = value === null || value === undefined ? "" : value;
+  return out;
+};
+
+// Records of a JSON document: a top-level array, a lone array property
+// (`{ "data": [...] }`) or a single object
+const jsonRecords = (doc: any): any[] => {
+  if (Array.isArray(doc)) return doc;
+  if (isPlainObject(doc)) {
+    const arrays = Object.values(doc).filter(Array.isArray);
+    if (arrays.length === 1 && arrays[0].every(isPlainObject)) return arrays[0];
+    return [doc];
+  }
+  return [doc];
+};
+
+export const parseJSON = async (
+  file: File,
+  options?: PipelineOptions
+): Promise<ImportedData> => {
+  const read = await readText(file, options?.encoding);
+  const diagnostics = read.diagnostics;
+  const text = read.text.replace(/^\uFEFF/, "");
+  let records: any[];
+  let fileType = "json";
+  try {
+    records = jsonRecords(JSON.parse(text));
+  } catch {
+    // Newline-delimited JSON: one value per line
+    fileType = "ndjson";
+    records = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (line.trim() === "") return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        throw importError(`JSON parsing error on line ${i + 1}`, diagnostics);
+      }
+    });
+  }
+  if (records.length === 0) throw importError("Empty JSON file", diagnostics);
+
+  const seen = new Set<string>();
+  const headers: string[] = [];
+  const flat = records.map((record) => {
+    const row = flattenRecord(record);
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+    return row;
+  });
+  const rows = flat.map((row) => {
+    const out: Record<string, any> = {};
+    for (const header of headers) out[header] = header in row ? row[header] : "";
+    return out;
+  });
+
+  const data: ImportedData = { headers, rows, fileName: file.name, fileType, diagnostics };
+  return options?.detectTypes ? inferColumnTypes(data) : data;
+};
+
+export const parseCSV = (
+  file: File,
+  options?: PipelineOptions
+): Promise<ImportedData> => {
   return new Promise((resolve, reject) => {
     // 1) Detect encoding from a small sample
     const sampler = new FileReader();
     sampler.onerror = () => reject(new Error("Failed to read file"));
     sampler.onload = () => {
       try {
-        const buffer = sampler.result as ArrayBuffer;
-        const sampleBytes = new Uint8Array(
-          buffer.slice(0, Math.min(buffer.byteLength, 512 * 1024))
-        );
-        let sampleString = "";
-        try {
-          sampleString = new TextDecoder("windows-1252").decode(sampleBytes);
-        } catch {
-          sampleString = Array.from(sampleBytes)
-            .map((c) => String.fromCharCode(c))
-            .join("");
-        }
-        const detection = detectEncoding(sampleString);
-        let encoding = (detection.encoding || "utf-8").toLowerCase();
-        if (!detection.encoding || (detection.confidence || 0) < 0.2) {
-          encoding = "utf-8";
-        }
+        const { encoding, confidence } = options?.encoding
+          ? { encoding: options.encoding, confidence: undefined }
+          : sniffEncoding(sampler.result as ArrayBuffer);
 
-        // 2) Stream-parse the File with Papa on a Web Worker
+        // 2) Stream-parse the File with Papa on a Web Worker. Rows arrive as
+        // arrays; the first HEADER_SCAN_ROWS are buffered to find the header.
         const rows: Record<string, any>[] = [];
+        const preview: any[][] = [];
         let headers: string[] = [];
+        let headerRowIndex: number | null = null; // resolved once the scan window is full
         let parseErrors: any[] = [];
-        let headerMap: Map<string, string> | null = null; // original -> normalized
+        let delimiter = options?.delimiter;
+        let recordCount = 0;
+        const mismatches: ColumnCountMismatch[] = [];
+        let mismatchCount = 0;
+
+        // Rows with more or fewer cells than the header are kept but reported
+        const checkWidth = (cells: any[], row: number) => {
+          if (cells.length === headers.length) return;
+          mismatchCount++;
+          if (mismatches.length < MAX_DIAGNOSTIC_ROWS) {
+            mismatches.push({ row, expected: headers.length, actual: cells.length });
+          }
+        };
+
+        const resolveHeader = () => {
+          headerRowIndex = resolveHeaderRowIndex(preview, options);
+          headers = headersFor(preview, headerRowIndex);
+          preview.forEach((cells, i) => {
+            if (i <= headerRowIndex) return;
+            checkWidth(cells, i + 1);
+            rows.push(cellsToRow(headers, cells));
+          });
+        };
 
         const config: any = {
-          header: true,
+          header: false,
           skipEmptyLines: true,
           worker: true,
           encoding,
+          delimiter: options?.delimiter || "", // empty lets Papa sniff it
           step: (result: any) => {
-            if (!headers.length && Array.isArray(result.meta?.fields)) {
-              const originalHeaders = (result.meta.fields as string[]) || [];
-              const used = new Set<string>();
-              headerMap = new Map<string, string>();
-              headers = originalHeaders.map((h) => {
-                const base = typeof h === "string" ? h.trim() : String(h || "");
-                let name = base || "";
-                if (used.has(name)) {
-                  let i = 2;
-                  while (used.has(`${name}_${i}`)) i++;
-                  name = `${name}_${i}`;
-                }
-                used.add(name);
-                headerMap!.set(h, name);
-                return name;
-              });
-            }
-            if (result?.data && typeof result.data === "object") {
-              const row = result.data as Record<string, any>;
-              const normalized: Record<string, any> = {};
-              if (headerMap) {
-                for (const [orig, norm] of headerMap.entries()) {
-                  const v = row[orig];
-                  normalized[norm] = typeof v === "string" ? v.trim() : v;
-                }
+            delimiter = delimiter || result?.meta?.delimiter;
+            if (Array.isArray(result?.data)) {
+              const cells = result.data as any[];
+              recordCount++;
+              if (headerRowIndex === null) {
+                preview.push(cells);
+                if (preview.length >= HEADER_SCAN_ROWS) resolveHeader();
               } else {
-                for (const k of Object.keys(row)) {
-                  const v = row[k];
-                  normalized[k] = typeof v === "string" ? v.trim() : v;
-                }
+                checkWidth(cells, recordCount);
+                rows.push(cellsToRow(headers, cells));
               }
-              rows.push(normalized);
             }
             if (Array.isArray(result.errors) && result.errors.length) {
               parseErrors = parseErrors.concat(result.errors);
             }
           },
           complete: (_final) => {
-            if (!headers.length && rows.length) {
-              headers = Object.keys(rows[0]);
-            }
+            if (headerRowIndex === null) resolveHeader();
+            const diagnostics: ImportDiagnostics = {
+              encoding,
+              encodingConfidence: confidence,
+              delimiter,
+              columnMismatches: mismatches,
+              columnMismatchCount: mismatchCount,
+              warnings: Array.from(
+                new Set(
+                  parseErrors
+                    .filter((e) => e.type === "FieldMismatch" || e.type === "Delimiter")
+                    .map((e) => e.message as string)
+                )
+              ),
+            };
             // If serious errors, reject
             const serious = parseErrors.find(
               (e) => e.type !== "FieldMismatch" && e.type !== "Delimiter"
             );
             if (serious) {
-              reject(new Error(`CSV parsing error: ${serious.message}`));
+              const where = typeof serious.row === "number" ? ` (row ${serious.row + 1})` : "";
+              reject(importError(`CSV parsing error: ${serious.message}${where}`, diagnostics));
               return;
             }
-            resolve({
+            const data: ImportedData = {
               headers,
               rows,
               fileName: file.name,
-              fileType: "csv",
-            });
+              fileType: delimiter === "\t" ? "tsv" : !delimiter || delimiter === "," ? "csv" : "delimited",
+              headerRowIndex,
+              rawPreview: preview,
+              diagnostics,
+            };
+            resolve(options?.detectTypes ? inferColumnTypes(data) : data);
           },
         };
         try {
@@ -118,7 +709,7 @@ export const parseCSV = (file: File): Promise<ImportedData> => {
         reject(err);
       }
     };
-    const sampleBlob = file.slice(0, Math.min(file.size, 512 * 1024));
+    const sampleBlob = file.slice(0, Math.min(file.size, SNIFF_BYTES));
     sampler.readAsArrayBuffer(sampleBlob);
   });
 };
@@ -191,14 +782,20 @@ export const validatePipelineConfig = (
   return errors;
 };
 
+const PROGRESS_INTERVAL_ROWS = 2000;
+
 export const processImportedDataWithMappings = (
   importedData: ImportedData,
   fields: FieldConfig[],
   pipeline: PipelineMappings,
   registry: TransformRegistry = defaultTransforms,
-  validationRegistry?: ValidationRegistry
+  validationRegistry?: ValidationRegistry,
+  onProgress?: (processed: number, total: number) => void
 ): DataRow[] => {
+  const validate = pipeline.options?.validateData !== false;
+  const total = importedData.rows.length;
   const rows: DataRow[] = importedData.rows.map((row, index) => {
+    if (onProgress && index % PROGRESS_INTERVAL_ROWS === 0) onProgress(index, total);
     const processed: Record<string, any> = {};
     const errors: ValidationError[] = [];
 
@@ -209,14 +806,17 @@ export const processImportedDataWithMappings = (
       if (!field) continue;
       let v = row[source];
       const tName = transform ?? field.defaultTransform;
-      v = applyNamedTransform(v, tName, registry);
-      const coerced = transformValue(v, field.type);
+      const mapped = lookupValueMapping(v, pipeline.valueMappings?.[target]);
+      v = mapped !== undefined ? mapped : applyNamedTransform(v, tName, registry);
+      const coerced = transformValue(v, field.type, field);
       processed[target] = coerced;
-      errors.push(...validateFieldWithRegistry(coerced, field, index, processed, validationRegistry));
+      if (validate) {
+        errors.push(...validateFieldWithRegistry(coerced, field, index, processed, validationRegistry));
+      }
     }
 
     for (const f of fields) {
-      if (f.required && !(f.key in processed)) {
+      if (validate && f.required && !(f.key in processed)) {
         errors.push({
           row: index,
           field: f.key,
@@ -225,87 +825,164 @@ export const processImportedDataWithMappings = (
         });
       }
     }
+    const checked = validate ? applyConditionalRules(processed, index, fields, errors) : errors;
 
     return {
       id: `row-${index}`,
       data: processed,
-      errors,
-      isValid: errors.filter((e) => e.severity === "error").length === 0,
+      errors: checked,
+      isValid: checked.filter((e) => e.severity === "error").length === 0,
     };
   });
 
   // Uniqueness across all rows
-  const uniqueFields = fields.filter((f) => f.unique);
-  for (const f of uniqueFields) {
+  return validate ? applyUniqueConstraints(rows, fields, uniqueConstraintsFor(fields)) : rows;
+};
+
+const KEY_SEPARATOR = "\u001f";
+
+const keyPart = (v: any, caseSensitive?: boolean): string => {
+  if (v === null || v === undefined) return "";
+  return caseSensitive ? String(v) : String(v).trim().replace(/\s+/g, " ").toLowerCase();
+};
+
+// Comparable key of a row for a constraint; null when every part is blank
+export const uniqueKeyOf = (
+  rowData: Record<string, any>,
+  constraint: UniqueConstraint
+): string | null => {
+  const parts = constraint.fields.map((k) => rowData[k]);
+  if (parts.every((v) => v === null || v === undefined || v === "")) return null;
+  return parts.map((v) => keyPart(v, constraint.caseSensitive)).join(KEY_SEPARATOR);
+};
+
+// Existing keys from the host, normalized like row keys
+export const buildExistingKeySet = (
+  keys: ExistingKeys,
+  constraint: UniqueConstraint
+): Set<string> => {
+  const set = new Set<string>();
+  for (const key of keys) {
+    const parts = Array.isArray(key) ? key : [key];
+    set.add(parts.map((v) => keyPart(v, constraint.caseSensitive)).join(KEY_SEPARATOR));
+  }
+  return set;
+};
+
+// Field-level `unique` compares one field exactly; sheet constraints follow theirs
+export const uniqueConstraintsFor = (
+  fields: FieldConfig[],
+  sheetConstraints: UniqueConstraint[] = []
+): UniqueConstraint[] => [
+  ...fields
+    .filter((f) => f.unique)
+    .map((f) => ({ name: f.key, fields: [f.key], caseSensitive: true })),
+  ...sheetConstraints,
+];
+
+// Errors for a row whose key repeats ("duplicate") or is already stored ("existing")
+export const uniqueConstraintErrors = (
+  rowData: Record<string, any>,
+  rowIndex: number,
+  constraint: UniqueConstraint,
+  fields: FieldConfig[],
+  reason: "duplicate" | "existing"
+): ValidationError[] => {
+  const labels = constraint.fields
+    .map((k) => fields.find((f) => f.key === k)?.label || k)
+    .join(" + ");
+  const shown = constraint.fields.map((k) => String(rowData[k] ?? "")).join(" / ");
+  const message =
+    constraint.message ||
+    (reason === "existing"
+      ? `${labels} '${shown}' already exists`
+      : `${labels} must be unique. Duplicate value '${shown}' found`);
+  return constraint.fields.map((field) => ({
+    row: rowIndex,
+    field,
+    message,
+    severity: "error",
+    constraint: constraint.name,
+  }));
+};
+
+// Flag rows that repeat a key within the rows or match an existing key
+// (keyed by constraint name). Mutates `rows`.
+export const applyUniqueConstraints = (
+  rows: DataRow[],
+  fields: FieldConfig[],
+  constraints: UniqueConstraint[],
+  existingKeys?: Map<string, Set<string>>
+): DataRow[] => {
+  for (const constraint of constraints) {
+    const existing = existingKeys?.get(constraint.name);
     const seen = new Map<string, number>();
+    const flagged = new Set<number>();
+    const flag = (rowIdx: number, reason: "duplicate" | "existing") => {
+      if (flagged.has(rowIdx)) return;
+      flagged.add(rowIdx);
+      rows[rowIdx].errors.push(
+        ...uniqueConstraintErrors(rows[rowIdx].data, rowIdx, constraint, fields, reason)
+      );
+      rows[rowIdx].isValid = false;
+    };
     rows.forEach((r, idx) => {
-      const val = r.data[f.key];
-      if (val === undefined || val === null || val === "") return;
-      const key = String(val);
-      if (seen.has(key)) {
-        const first = seen.get(key)!;
-        const push = (rowIdx: number) => {
-          rows[rowIdx].errors.push({
-            row: rowIdx,
-            field: f.key,
-            message: `${f.label} must be unique. Duplicate value '${key}' found`,
-            severity: "error",
-          });
-          rows[rowIdx].isValid = false;
-        };
-        push(first);
-        push(idx);
+      const key = uniqueKeyOf(r.data, constraint);
+      if (key === null) return;
+      if (existing?.has(key)) {
+        flag(idx, "existing");
+      } else if (seen.has(key)) {
+        flag(seen.get(key)!, "duplicate");
+        flag(idx, "duplicate");
       } else {
         seen.set(key, idx);
       }
     });
   }
-
   return rows;
 };
 
-export const parseExcel = (file: File): Promise<ImportedData> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: "array" });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-
-        if (jsonData.length === 0) {
-          reject(new Error("Empty Excel file"));
-          return;
-        }
-
-        const headers = jsonData[0] as string[];
-        const rows = jsonData.slice(1).map((row: any[]) => {
-          const rowObj: Record<string, any> = {};
-          headers.forEach((header, index) => {
-            rowObj[header] = row[index] || "";
-          });
-          return rowObj;
-        });
-
-        resolve({
-          headers,
-          rows,
-          fileName: file.name,
-          fileType: "excel",
-        });
-      } catch (error) {
-        reject(error);
-      }
-    };
+const worksheetToImportedData = (
+  worksheet: XLSX.WorkSheet,
+  fileName: string,
+  worksheetName: string,
+  options?: PipelineOptions
+): ImportedData | null => {
+  const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+  if (jsonData.length === 0) return null;
+  return matrixToImportedData(
+    jsonData,
+    { fileName, fileType: "excel", worksheetName },
+    options
+  );
+};
 
-    reader.onerror = () => reject(new Error("Failed to read file"));
-    reader.readAsArrayBuffer(file);
+// Decode workbook bytes; shared by parseExcel and the import worker
+export const parseExcelBuffer = (
+  buffer: ArrayBuffer,
+  fileName: string,
+  options?: PipelineOptions,
+  onProgress?: (fraction: number) => void
+): ImportedData => {
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: "array" });
+  onProgress?.(0.5);
+  const worksheets: ImportedWorksheet[] = [];
+  workbook.SheetNames.forEach((name, i) => {
+    const parsed = worksheetToImportedData(workbook.Sheets[name], fileName, name, options);
+    if (parsed) worksheets.push({ name, data: parsed });
+    onProgress?.(0.5 + (0.5 * (i + 1)) / workbook.SheetNames.length);
   });
+
+  if (worksheets.length === 0) throw new Error("Empty Excel file");
+  return { ...worksheets[0].data, worksheets };
 };
 
+export const parseExcel = async (
+  file: File,
+  options?: PipelineOptions
+): Promise<ImportedData> =>
+  parseExcelBuffer(await readArrayBuffer(file), file.name, options);
+
 // Validation utilities
 export const validateFieldWithRegistry = (
   value: any,
@@ -331,7 +1008,7 @@ export const validateFieldWithRegistry = (
   if (value !== null && value !== undefined && value !== "") {
     switch (field.type) {
       case "number":
-        if (isNaN(Number(value))) {
+        if (isNaN(parseLocaleNumber(value, field.locale))) {
           errors.push({
             row: rowIndex,
             field: field.key,
@@ -352,7 +1029,9 @@ export const validateFieldWithRegistry = (
         }
         break;
       case "date":
-        if (isNaN(Date.parse(String(value)))) {
+        if (
+          !parseDateValue(String(value), field.locale?.dateFormats, field.locale?.dayFirst)
+        ) {
           errors.push({
             row: rowIndex,
             field: field.key,
@@ -372,6 +1051,93 @@ export const validateFieldWithRegistry = (
           });
         }
         break;
+      case "currency":
+        // Edited cells arrive as strings
+        if (typeof toAmount(value, field.locale) !== "number") {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be a valid amount`,
+            severity: "error",
+          });
+        }
+        break;
+      case "datetime":
+        if (
+          !parseDateValue(String(value), field.locale?.dateFormats, field.locale?.dayFirst)
+        ) {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be a valid date and time`,
+            severity: "error",
+          });
+        }
+        break;
+      case "time":
+        if (!/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(String(value))) {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be a valid time (HH:MM)`,
+            severity: "error",
+          });
+        }
+        break;
+      case "phone":
+        const phoneDigits = String(value).replace(/\D/g, "").length;
+        if (phoneDigits < 7 || phoneDigits > 15) {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be a valid phone number`,
+            severity: "error",
+          });
+        }
+        break;
+      case "url":
+        let validUrl = false;
+        try {
+          validUrl = ["http:", "https:"].includes(new URL(String(value)).protocol);
+        } catch {
+          validUrl = false;
+        }
+        if (!validUrl) {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be a valid URL`,
+            severity: "error",
+          });
+        }
+        break;
+      case "enum":
+        const options = field.options || [];
+        if (options.length && !options.some((o) => o.value === value)) {
+          errors.push({
+            row: rowIndex,
+            field: field.key,
+            message: `${field.label} must be one of: ${options
+              .map((o) => o.label || o.value)
+              .join(", ")}`,
+            severity: "error",
+          });
+        }
+        break;
+      case "json":
+        if (typeof value === "string") {
+          try {
+            JSON.parse(value);
+          } catch {
+            errors.push({
+              row: rowIndex,
+              field: field.key,
+              message: `${field.label} must be valid JSON`,
+              severity: "error",
+            });
+          }
+        }
+        break;
     }
   }
 
@@ -418,6 +1184,287 @@ export const validateFieldWithRegistry = (
   return errors;
 };
 
+const conditionValue = (v: any) =>
+  v === null || v === undefined ? "" : String(v).trim().toLowerCase();
+
+export const evaluateCondition = (
+  condition: FieldCondition,
+  rowData: Record<string, any>
+): boolean => {
+  if ("all" in condition) return condition.all.every((c) => evaluateCondition(c, rowData));
+  if ("any" in condition) return condition.any.some((c) => evaluateCondition(c, rowData));
+  if ("not" in condition) return !evaluateCondition(condition.not, rowData);
+  const actual = conditionValue(rowData[condition.field]);
+  const oneOf = (list: any[]) => list.some((v) => conditionValue(v) === actual);
+  if ("equals" in condition && conditionValue(condition.equals) !== actual) return false;
+  if ("notEquals" in condition && conditionValue(condition.notEquals) === actual) return false;
+  if (condition.in && !oneOf(condition.in)) return false;
+  if (condition.notIn && oneOf(condition.notIn)) return false;
+  if (condition.empty !== undefined && condition.empty !== (actual === "")) return false;
+  if (condition.matches && !new RegExp(condition.matches).test(String(rowData[condition.field] ?? "")))
+    return false;
+  return true;
+};
+
+export const isFieldHidden = (field: FieldConfig, rowData: Record<string, any>): boolean =>
+  !!field.hiddenWhen && evaluateCondition(field.hiddenWhen, rowData);
+
+export const isFieldRequired = (field: FieldConfig, rowData: Record<string, any>): boolean =>
+  !isFieldHidden(field, rowData) &&
+  (!!field.required || (!!field.requiredWhen && evaluateCondition(field.requiredWhen, rowData)));
+
+// Values a field is limited to for this row, if a conditional list applies
+export const allowedValuesFor = (
+  field: FieldConfig,
+  rowData: Record<string, any>
+): ConditionalValues | undefined =>
+  (field.allowedValuesWhen || []).find((entry) => evaluateCondition(entry.when, rowData));
+
+// Errors of a single field from its conditional rules
+export const validateConditions = (
+  field: FieldConfig,
+  rowData: Record<string, any>,
+  rowIndex: number
+): ValidationError[] => {
+  if (isFieldHidden(field, rowData)) return [];
+  const value = rowData[field.key];
+  const blank = conditionValue(value) === "";
+  const error = (message: string): ValidationError => ({
+    row: rowIndex,
+    field: field.key,
+    message,
+    severity: "error",
+    validator: `${field.key}:conditions`,
+  });
+  if (blank) {
+    // Static required counts too: the field may only just have been shown
+    return isFieldRequired(field, rowData) ? [error(`${field.label} is required`)] : [];
+  }
+  const allowed = allowedValuesFor(field, rowData);
+  if (allowed && !allowed.values.some((v) => conditionValue(v) === conditionValue(value))) {
+    return [
+      error(allowed.message || `${field.label} must be one of: ${allowed.values.join(", ")}`),
+    ];
+  }
+  return [];
+};
+
+// Conditional rules for a whole row: drops errors of fields that are hidden for
+// it and adds requiredWhen / allowedValuesWhen failures
+export const applyConditionalRules = (
+  rowData: Record<string, any>,
+  rowIndex: number,
+  fields: FieldConfig[],
+  errors: ValidationError[]
+): ValidationError[] => {
+  const conditional = fields.filter(
+    (f) => f.requiredWhen || f.hiddenWhen || f.allowedValuesWhen?.length
+  );
+  if (!conditional.length) return errors;
+  const hidden = new Set(conditional.filter((f) => isFieldHidden(f, rowData)).map((f) => f.key));
+  const kept = errors.filter((e) => !hidden.has(e.field));
+  // A visible required field may already carry the static "is required" error
+  const added = conditional
+    .flatMap((f) => validateConditions(f, rowData, rowIndex))
+    .filter((c) => !kept.some((e) => e.field === c.field && e.message === c.message));
+  return [...kept, ...added];
+};
+
+// Errors from a sheet's row validators, attached to the fields each one names
+export const validateRow = (
+  rowData: Record<string, any>,
+  rowIndex: number,
+  validators: RowValidator[] = []
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  for (const v of validators) {
+    const res = v.validate(rowData, rowIndex);
+    if (res === false || typeof res === "string") {
+      const message = typeof res === "string" ? res : v.message || `${v.name} failed validation`;
+      for (const field of v.fields) {
+        errors.push({
+          row: rowIndex,
+          field,
+          message,
+          severity: v.severity || "error",
+          validator: v.name,
+        });
+      }
+    } else if (res && typeof res === "object") {
+      for (const maybe of Array.isArray(res) ? res : [res]) {
+        errors.push({
+          row: maybe.row ?? rowIndex,
+          field: maybe.field ?? v.fields[0],
+          message: maybe.message || v.message || `${v.name} failed validation`,
+          severity: maybe.severity || v.severity || "error",
+          validator: v.name,
+        });
+      }
+    }
+  }
+  return errors;
+};
+
+// Run row validators over already processed rows (worker and bulk paths)
+export const applyRowValidators = (
+  rows: DataRow[],
+  validators?: RowValidator[]
+): DataRow[] => {
+  if (!validators?.length) return rows;
+  return rows.map((r, index) => {
+    const rowErrors = validateRow(r.data, index, validators);
+    if (!rowErrors.length) return r;
+    const errors = [...r.errors, ...rowErrors];
+    return {
+      ...r,
+      errors,
+      isValid: errors.filter((e) => e.severity === "error").length === 0,
+    };
+  });
+};
+
+// Lookup results by "<rule>:<field>", then by value; null means the value passed
+export type LookupCache = Map<string, Map<string, string | null>>;
+
+const LOOKUP_BATCH_SIZE = 500;
+
+interface LookupBatch {
+  fn: AsyncValidator;
+  field: FieldConfig;
+  rule: ValidationRule;
+  known: Map<string, string | null>;
+  values: string[];
+}
+
+const asyncRules = (fields: FieldConfig[], registry?: AsyncValidationRegistry) =>
+  fields.flatMap((field) =>
+    (field.validations || [])
+      .filter((rule) => rule.type === "async" && rule.name && registry?.[rule.name])
+      .map((rule) => ({ field, rule, key: `${rule.name}:${field.key}` }))
+  );
+
+const isBlank = (v: any) => v === null || v === undefined || v === "";
+
+export const hasAsyncValidations = (
+  fields: FieldConfig[],
+  registry?: AsyncValidationRegistry
+): boolean => asyncRules(fields, registry).length > 0;
+
+// Look up every value not yet in the cache, once per rule and in batches
+export const prefetchAsyncValidations = async (
+  rows: Record<string, any>[],
+  fields: FieldConfig[],
+  registry: AsyncValidationRegistry | undefined,
+  cache: LookupCache,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const batches: LookupBatch[] = [];
+  for (const { field, rule, key } of asyncRules(fields, registry)) {
+    const known = cache.get(key) ?? new Map<string, string | null>();
+    cache.set(key, known);
+    const pending = new Set<string>();
+    for (const row of rows) {
+      const v = row[field.key];
+      if (!isBlank(v) && !known.has(String(v))) pending.add(String(v));
+    }
+    const values = Array.from(pending);
+    for (let i = 0; i < values.length; i += LOOKUP_BATCH_SIZE) {
+      batches.push({
+        fn: registry![rule.name!],
+        field,
+        rule,
+        known,
+        values: values.slice(i, i + LOOKUP_BATCH_SIZE),
+      });
+    }
+  }
+  for (let i = 0; i < batches.length; i++) {
+    if (signal?.aborted) return;
+    const { fn, field, rule, known, values } = batches[i];
+    const result = (await fn(values, field, rule.args, signal)) || {};
+    if (signal?.aborted) return;
+    for (const v of values) {
+      const res = result[v];
+      known.set(
+        v,
+        typeof res === "string"
+          ? res
+          : res === false
+          ? rule.message || `${field.label} "${v}" was not found`
+          : null
+      );
+    }
+    onProgress?.(i + 1, batches.length);
+  }
+};
+
+// Whether a row has values the async validators haven't checked yet
+export const needsAsyncValidation = (
+  rowData: Record<string, any>,
+  fields: FieldConfig[],
+  registry: AsyncValidationRegistry | undefined,
+  cache: LookupCache
+): boolean =>
+  asyncRules(fields, registry).some(({ field, key }) => {
+    const v = rowData[field.key];
+    return !isBlank(v) && !cache.get(key)?.has(String(v));
+  });
+
+// Errors for one row from cached lookup results
+export const asyncValidationErrors = (
+  rowData: Record<string, any>,
+  rowIndex: number,
+  fields: FieldConfig[],
+  registry: AsyncValidationRegistry | undefined,
+  cache: LookupCache
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  for (const { field, rule, key } of asyncRules(fields, registry)) {
+    const v = rowData[field.key];
+    const message = isBlank(v) ? null : cache.get(key)?.get(String(v));
+    if (message) {
+      errors.push({
+        row: rowIndex,
+        field: field.key,
+        message,
+        severity: "error",
+        lookup: rule.name,
+      });
+    }
+  }
+  return errors;
+};
+
+// Look up the values of processed rows and merge the failures into their errors
+export const applyAsyncValidations = async (
+  rows: DataRow[],
+  fields: FieldConfig[],
+  registry: AsyncValidationRegistry | undefined,
+  cache: LookupCache,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<DataRow[]> => {
+  await prefetchAsyncValidations(
+    rows.map((r) => r.data),
+    fields,
+    registry,
+    cache,
+    onProgress,
+    signal
+  );
+  return rows.map((r, index) => {
+    const lookupErrors = asyncValidationErrors(r.data, index, fields, registry, cache);
+    if (!lookupErrors.length) return r;
+    const errors = [...r.errors, ...lookupErrors];
+    return {
+      ...r,
+      errors,
+      isValid: errors.filter((e) => e.severity === "error").length === 0,
+    };
+  });
+};
+
 // Backwards-compatible wrapper
 export const validateField = (
   value: any,
@@ -443,7 +1490,7 @@ const validateRule = (
       }
       break;
     case "min":
-      if (field.type === "number" && Number(value) < rule.value) {
+      if (isNumericField(field) && Number(toAmount(value, field.locale)) < rule.value) {
         return {
           row: rowIndex,
           field: field.key,
@@ -461,7 +1508,7 @@ const validateRule = (
       }
       break;
     case "max":
-      if (field.type === "number" && Number(value) > rule.value) {
+      if (isNumericField(field) && Number(toAmount(value, field.locale)) > rule.value) {
         return {
           row: rowIndex,
           field: field.key,
@@ -491,7 +1538,116 @@ const excelSerialToDate = (serial: number): Date => {
   const ms = Math.round(serial * 86400000);
   return new Date(excelEpoch + ms);
 };
-export const transformValue = (value: any, fieldType: string): any => {
+const formatDateParts = (p: DateParts, withTime: boolean): string => {
+  const date = `${String(p.year).padStart(4, "0")}-${pad2(p.month)}-${pad2(p.day)}`;
+  return withTime
+    ? `${date}T${pad2(p.hour ?? 0)}:${pad2(p.minute ?? 0)}:${pad2(p.second ?? 0)}`
+    : date;
+};
+
+// A date/datetime value in the field's output mode: "YYYY-MM-DD", a local
+// "YYYY-MM-DDTHH:MM:SS", or a UTC ISO string. Wall-clock values are read in
+// locale.timeZone when set.
+const toDateValue = (value: any, field?: FieldConfig): any => {
+  // Unset keeps the full ISO timestamp date fields have always produced
+  const mode = field?.dateOutput ?? "utc";
+  const timeZone = field?.locale?.timeZone;
+  let parsed: ParsedDate | null = null;
+  if (value instanceof Date) {
+    // Spreadsheet dates carry the wall clock in local time
+    parsed = isNaN(value.getTime()) ? null : { parts: partsOfInstant(value) };
+  } else if (typeof value === "number") {
+    const maybeExcel = value > 59 && value < 600000;
+    if (maybeExcel) {
+      const d = excelSerialToDate(value);
+      const parts = partsOfInstant(d, "UTC");
+      if (Number.isInteger(value)) delete parts.hour;
+      parsed = { parts };
+    } else {
+      parsed = { instant: new Date(value) };
+    }
+  } else if (typeof value === "string") {
+    const s = value.trim();
+    if (!s) return null;
+    parsed = parseDateValue(s, field?.locale?.dateFormats, field?.locale?.dayFirst);
+  }
+  if (!parsed) return typeof value === "string" ? value.trim() : value;
+
+  if (mode === "utc") {
+    const instant =
+      "instant" in parsed ? parsed.instant : partsToInstant(parsed.parts, timeZone);
+    return isNaN(instant.getTime()) ? value : instant.toISOString();
+  }
+  const parts = "instant" in parsed ? partsOfInstant(parsed.instant, timeZone) : parsed.parts;
+  return formatDateParts(parts, mode === "local");
+};
+
+const isNumericField = (field: FieldConfig) =>
+  field.type === "number" || field.type === "currency";
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+// "HH:MM:SS" (24h) from "9:05 pm", "21:05", Excel day fractions or Dates
+const toTime = (value: any): any => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? value
+      : `${pad2(value.getHours())}:${pad2(value.getMinutes())}:${pad2(value.getSeconds())}`;
+  }
+  if (typeof value === "number" && value >= 0 && value < 1) {
+    const secs = Math.round(value * 86400) % 86400;
+    return `${pad2(Math.floor(secs / 3600))}:${pad2(Math.floor(secs / 60) % 60)}:${pad2(secs % 60)}`;
+  }
+  const s = String(value).trim();
+  const m = s.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!m) return s;
+  let hours = Number(m[1]);
+  const meridiem = m[4]?.[0].toLowerCase();
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  return `${pad2(hours)}:${m[2]}:${m[3] || "00"}`;
+};
+
+// "$1,234.50" -> 1234.5; accounting negatives "(12.00)" -> -12
+const toAmount = (value: any, locale?: ParseLocale): any => {
+  const n = parseLocaleNumber(value, locale);
+  return isNaN(n) ? String(value).trim() : n;
+};
+
+// Keep a leading "+" and the digits: "+1 (555) 123-4567" -> "+15551234567"
+const toPhone = (value: any): string => {
+  const s = String(value).trim();
+  const digits = s.replace(/\D/g, "");
+  return s.startsWith("+") ? `+${digits}` : digits;
+};
+
+const toUrl = (value: any): string => {
+  const s = String(value).trim();
+  // Bare domains ("example.com/path") get a scheme
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(s) || !/^[^\s/]+\.[a-z]{2,}(\/|$)/i.test(s)
+    ? s
+    : `https://${s}`;
+};
+
+// Match an enum by value or label, ignoring case
+const toEnumValue = (value: any, field?: FieldConfig): any => {
+  const s = String(value).trim().toLowerCase();
+  const match = (field?.options || []).find(
+    (o) => String(o.value).toLowerCase() === s || (o.label || "").toLowerCase() === s
+  );
+  return match ? match.value : String(value).trim();
+};
+
+const toJson = (value: any): any => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export const transformValue = (value: any, fieldType: string, field?: FieldConfig): any => {
   if (value === null || value === undefined || value === "") {
     return value;
   }
@@ -500,26 +1656,46 @@ export const transformValue = (value: any, fieldType: string): any => {
     case "string":
       return String(value).trim();
     case "number":
-      return Number(value);
+      return parseLocaleNumber(value, field?.locale);
     case "boolean":
       const str = String(value).toLowerCase();
       return str === "true" || str === "1" || str === "yes";
     case "date":
-      if (value instanceof Date) {
-        return isNaN(value.getTime()) ? value : value.toISOString();
-      }
-      if (typeof value === "number") {
-        const maybeExcel = value > 59 && value < 600000;
-        const d = maybeExcel ? excelSerialToDate(value) : new Date(value);
-        return isNaN(d.getTime()) ? value : d.toISOString();
-      }
-      if (typeof value === "string") {
-        const s = value.trim();
-        if (!s) return null;
-        const d = new Date(s);
-        return isNaN(d.getTime()) ? s : d.toISOString();
-      }
+    case "datetime":
+      return toDateValue(value, field);
+    case "time":
+      return toTime(value);
+    case "currency":
+      return toAmount(value, field?.locale);
+    case "phone":
+      return toPhone(value);
+    case "url":
+      return toUrl(value);
+    case "enum":
+      return toEnumValue(value, field);
+    case "json":
+      return toJson(value);
+    default:
       return value;
+  }
+};
+
+// What an edited cell stores: dates, amounts and JSON as the import would
+// convert them, or the typed text when it doesn't parse so it can be fixed
+export const editedValue = (value: any, field: FieldConfig): any => {
+  if (typeof value !== "string" || !value.trim()) return value;
+  switch (field.type) {
+    case "date":
+    case "datetime":
+      return parseDateValue(value.trim(), field.locale?.dateFormats, field.locale?.dayFirst)
+        ? transformValue(value, field.type, field)
+        : value;
+    case "currency": {
+      const amount = transformValue(value, field.type, field);
+      return typeof amount === "number" ? amount : value;
+    }
+    case "json":
+      return toJson(value);
     default:
       return value;
   }
@@ -563,7 +1739,75 @@ export const generateAutoMapping = (
   return mapping;
 };
 
-const calculateSimilarity = (str1: string, str2: string): number => {
+const MAX_DISTINCT_VALUES = 500;
+const VALUE_MATCH_THRESHOLD = 0.6;
+
+// Distinct (trimmed) values of a column, most frequent first
+export const getDistinctValues = (
+  rows: Record<string, any>[],
+  column: string,
+  limit: number = MAX_DISTINCT_VALUES
+): DistinctValue[] => {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const v = row[column];
+    if (v === null || v === undefined) continue;
+    const s = String(v).trim();
+    if (!s) continue;
+    counts.set(s, (counts.get(s) || 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit);
+};
+
+// Option chosen for a source value in the value mapping step, if any
+export const lookupValueMapping = (
+  value: any,
+  map?: Record<string, string>
+): string | undefined => {
+  if (!map || value === null || value === undefined) return undefined;
+  return map[String(value).trim()];
+};
+
+const initials = (s: string) =>
+  s
+    .split(/[\s_-]+/)
+    .filter(Boolean)
+    .map((w) => w[0])
+    .join("");
+
+// Best option for each source value: exact value/label, initials ("NY" for
+// "New York"), abbreviations ("Calif."), then the closest label above the
+// similarity threshold
+export const suggestValueMappings = (
+  values: string[],
+  options: EnumOption[]
+): Record<string, string> => {
+  const map: Record<string, string> = {};
+  for (const value of values) {
+    const v = value.toLowerCase();
+    const stem = v.replace(/\.$/, "");
+    let best: { option: EnumOption; score: number } | null = null;
+    for (const option of options) {
+      const candidates = [option.value, option.label || ""]
+        .filter(Boolean)
+        .map((c) => c.toLowerCase());
+      const score = candidates.some((c) => c === v)
+        ? 1
+        : candidates.some((c) => c.length > v.length && initials(c) === v)
+        ? 0.9
+        : stem.length >= 3 && candidates.some((c) => c.startsWith(stem))
+        ? 0.8
+        : Math.max(...candidates.map((c) => calculateSimilarity(v, c)));
+      if (!best || score > best.score) best = { option, score };
+    }
+    if (best && best.score >= VALUE_MATCH_THRESHOLD) map[value] = best.option.value;
+  }
+  return map;
+};
+
+export const calculateSimilarity = (str1: string, str2: string): number => {
   // Simple similarity calculation using Levenshtein distance
   const matrix = Array(str2.length + 1)
     .fill(null)
@@ -605,7 +1849,8 @@ export const processImportedData = (
         if (field) {
           const transformedValue = transformValue(
             row[sourceColumn],
-            field.type
+            field.type,
+            field
           );
           processedRow[targetField] = transformedValue;
 
@@ -636,3 +1881,33 @@ export const processImportedData = (
     };
   });
 };
+
+// Pair Excel tabs with workbook sheets by name similarity (each tab used once)
+export const matchWorksheetsToSheets = (
+  worksheetNames: string[],
+  sheets: SheetConfig[],
+  threshold: number = 0.6
+): Record<string, string> => {
+  const normalize = (v: string) => v.toLowerCase().replace(/[^a-z0-9]+/g, "");
+  const candidates: { slug: string; worksheet: string; score: number }[] = [];
+  for (const sheet of sheets) {
+    for (const worksheet of worksheetNames) {
+      const w = normalize(worksheet);
+      const score = Math.max(
+        calculateSimilarity(w, normalize(sheet.name)),
+        calculateSimilarity(w, normalize(sheet.slug))
+      );
+      if (score >= threshold) candidates.push({ slug: sheet.slug, worksheet, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const assigned: Record<string, string> = {};
+  const usedWorksheets = new Set<string>();
+  for (const c of candidates) {
+    if (assigned[c.slug] || usedWorksheets.has(c.worksheet)) continue;
+    assigned[c.slug] = c.worksheet;
+    usedWorksheets.add(c.worksheet);
+  }
+  return assigned;
+};
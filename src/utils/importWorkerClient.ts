@@ -0,0 +1,131 @@
+import {
+  DataRow,
+  FieldConfig,
+  ImportedData,
+  PipelineMappings,
+  PipelineOptions,
+  TransformRegistry,
+  ValidationRegistry,
+} from "../types";
+import { defaultTransforms } from "./dataProcessing";
+
+// Messages exchanged with workers/importWorker
+export type ImportWorkerRequest =
+  | {
+      type: "parseExcel";
+      buffer: ArrayBuffer;
+      fileName: string;
+      options?: PipelineOptions;
+    }
+  | {
+      type: "process";
+      data: ImportedData;
+      fields: FieldConfig[];
+      pipeline: PipelineMappings;
+    };
+
+export type ImportWorkerResponse =
+  | { type: "progress"; fraction: number }
+  | { type: "result"; result: any }
+  | { type: "error"; message: string };
+
+const abortError = () => {
+  const err = new Error("Import worker cancelled");
+  err.name = "AbortError";
+  return err;
+};
+
+// Run one request on a fresh worker; aborting the signal terminates it
+const runInWorker = <T>(
+  createWorker: () => Worker,
+  request: ImportWorkerRequest,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+  transfer: Transferable[] = []
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const worker = createWorker();
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort);
+    worker.onmessage = (e: MessageEvent<ImportWorkerResponse>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        onProgress?.(msg.fraction);
+      } else if (msg.type === "result") {
+        finish();
+        resolve(msg.result as T);
+      } else if (msg.type === "error") {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Import worker failed"));
+    };
+    worker.postMessage(request, transfer);
+  });
+
+export const parseExcelInWorker = async (
+  createWorker: () => Worker,
+  file: File,
+  options?: PipelineOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<ImportedData> => {
+  const buffer = await file.arrayBuffer();
+  return runInWorker<ImportedData>(
+    createWorker,
+    { type: "parseExcel", buffer, fileName: file.name, options },
+    onProgress,
+    signal,
+    [buffer]
+  );
+};
+
+export const processInWorker = (
+  createWorker: () => Worker,
+  data: ImportedData,
+  fields: FieldConfig[],
+  pipeline: PipelineMappings,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<DataRow[]> =>
+  runInWorker<DataRow[]>(
+    createWorker,
+    // Only rows and headers are needed; skip previews and other worksheets
+    { type: "process", data: { headers: data.headers, rows: data.rows }, fields, pipeline },
+    onProgress,
+    signal
+  );
+
+// Functions can't be posted to a worker, so it only knows the default
+// transforms and no custom validators. Anything else stays on the main thread.
+export const canProcessInWorker = (
+  fields: FieldConfig[],
+  pipeline: PipelineMappings,
+  registry: TransformRegistry = defaultTransforms,
+  validationRegistry?: ValidationRegistry
+): boolean => {
+  for (const m of pipeline.fieldMappings || []) {
+    const field = fields.find((f) => f.key === m.target);
+    const name = m.transform ?? field?.defaultTransform;
+    if (name && registry[name] && registry[name] !== defaultTransforms[name]) return false;
+  }
+  return !fields.some((f) =>
+    (f.validations || []).some(
+      (v) => v.type === "custom" && v.name && validationRegistry?.[v.name]
+    )
+  );
+};
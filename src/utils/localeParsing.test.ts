@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { inferDateFormat, parseDateValue, parseLocaleNumber } from "./localeParsing";
+
+describe("parseLocaleNumber", () => {
+  it("guesses the decimal mark from the separators used", () => {
+    expect(parseLocaleNumber("1.234,56")).toBe(1234.56);
+    expect(parseLocaleNumber("1,234.56")).toBe(1234.56);
+    expect(parseLocaleNumber("1,200")).toBe(1200);
+    expect(parseLocaleNumber("12,5")).toBe(12.5);
+    expect(parseLocaleNumber("1 200,5")).toBe(1200.5);
+  });
+
+  it("strips currency symbols and codes and reads accounting negatives", () => {
+    expect(parseLocaleNumber("€1,200")).toBe(1200);
+    expect(parseLocaleNumber("EUR 1.200,50")).toBe(1200.5);
+    expect(parseLocaleNumber("(12.00)")).toBe(-12);
+    expect(parseLocaleNumber("-3.5")).toBe(-3.5);
+  });
+
+  it("follows configured separators", () => {
+    expect(parseLocaleNumber("1.200", { decimalSeparator: ",", thousandsSeparator: "." })).toBe(
+      1200
+    );
+    expect(parseLocaleNumber("1'234.5", { thousandsSeparator: "'" })).toBe(1234.5);
+  });
+
+  it("passes numbers through and rejects text", () => {
+    expect(parseLocaleNumber(42)).toBe(42);
+    expect(parseLocaleNumber("1e3")).toBe(1000);
+    expect(parseLocaleNumber("abc")).toBeNaN();
+  });
+});
+
+describe("parseDateValue", () => {
+  it("uses the configured formats first", () => {
+    expect(parseDateValue("31.12.2024", ["DD.MM.YYYY"])).toEqual({
+      parts: { year: 2024, month: 12, day: 31 },
+    });
+    expect(parseDateValue("12/03/2024 14:30", ["DD/MM/YYYY"])).toEqual({
+      parts: { year: 2024, month: 3, day: 12, hour: 14, minute: 30, second: 0 },
+    });
+  });
+
+  it("reads ambiguous dates day first when dayFirst is set", () => {
+    expect(parseDateValue("03/04/2024", [], true)).toEqual({
+      parts: { year: 2024, month: 4, day: 3 },
+    });
+    expect(parseDateValue("03/04/2024", [], false)).toEqual({
+      parts: { year: 2024, month: 3, day: 4 },
+    });
+    // Configured formats that don't match still fall back to the dayFirst order
+    expect(parseDateValue("03/04/2024", ["YYYY-MM-DD"], true)).toEqual({
+      parts: { year: 2024, month: 4, day: 3 },
+    });
+  });
+
+  it("keeps ISO wall clocks and offsets apart", () => {
+    expect(parseDateValue("2024-03-01T09:30")).toEqual({
+      parts: { year: 2024, month: 3, day: 1, hour: 9, minute: 30, second: 0 },
+    });
+    const withOffset = parseDateValue("2024-03-01T09:30:00Z");
+    expect(withOffset && "instant" in withOffset && withOffset.instant.toISOString()).toBe(
+      "2024-03-01T09:30:00.000Z"
+    );
+  });
+
+  it("rejects impossible days and text", () => {
+    expect(parseDateValue("31/02/2024", ["DD/MM/YYYY"], true)).toBeNull();
+    expect(parseDateValue("2024-02-30")).toBeNull();
+    expect(parseDateValue("not a date")).toBeNull();
+  });
+});
+
+describe("inferDateFormat", () => {
+  it("picks the format that parses the column", () => {
+    expect(inferDateFormat(["31.12.2024", "01.02.2024"])).toBe("DD.MM.YYYY");
+    expect(inferDateFormat(["2024-12-31", "2024-01-02"])).toBe("YYYY-MM-DD");
+  });
+
+  it("settles ambiguous columns by dayFirst and by values that rule one order out", () => {
+    expect(inferDateFormat(["03/04/2024", "05/06/2024"])).toBe("MM/DD/YYYY");
+    expect(inferDateFormat(["03/04/2024", "05/06/2024"], true)).toBe("DD/MM/YYYY");
+    expect(inferDateFormat(["03/04/2024", "25/06/2024"])).toBe("DD/MM/YYYY");
+  });
+
+  it("gives up on mixed or empty columns", () => {
+    const mixed = ["03/04/2024", "2024-05-06", "May 6", "n/a", "", "07/08/2024"];
+    expect(inferDateFormat(mixed)).toBeUndefined();
+    expect(inferDateFormat([null, "", 12])).toBeUndefined();
+  });
+});
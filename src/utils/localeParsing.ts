@@ -0,0 +1,252 @@
+import { FieldConfig, FieldMapping, ParseLocale } from "../types";
+
+// Date formats tried when inferring from a column; month-first variants are
+// preferred over day-first ones unless the locale says otherwise
+const MONTH_FIRST_FORMATS = ["MM/DD/YYYY", "MM-DD-YYYY", "MM/DD/YY"];
+const DAY_FIRST_FORMATS = ["DD/MM/YYYY", "DD-MM-YYYY", "DD.MM.YYYY", "DD/MM/YY", "DD.MM.YY"];
+const UNAMBIGUOUS_FORMATS = ["YYYY-MM-DD", "YYYY/MM/DD", "YYYY.MM.DD"];
+
+const DATE_SAMPLE_SIZE = 200;
+const DATE_MATCH_RATIO = 0.9;
+
+const TOKEN_PATTERNS: Record<string, string> = {
+  YYYY: "(\\d{4})",
+  YY: "(\\d{2})",
+  MM: "(\\d{1,2})",
+  M: "(\\d{1,2})",
+  DD: "(\\d{1,2})",
+  D: "(\\d{1,2})",
+};
+
+const formatCache = new Map<string, { regex: RegExp; tokens: string[] }>();
+
+const compileFormat = (format: string) => {
+  const cached = formatCache.get(format);
+  if (cached) return cached;
+  const tokens: string[] = [];
+  const source = format.replace(/YYYY|YY|MM|M|DD|D|[.*+?^${}()|[\]\\]/g, (t) => {
+    if (TOKEN_PATTERNS[t]) {
+      tokens.push(t);
+      return TOKEN_PATTERNS[t];
+    }
+    return `\\${t}`;
+  });
+  // An optional time may follow the date: "12/03/2024 14:30[:15]"
+  const compiled = {
+    regex: new RegExp(`^${source}(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2}))?)?$`),
+    tokens,
+  };
+  formatCache.set(format, compiled);
+  return compiled;
+};
+
+// Wall-clock fields of a date; hour is undefined for date-only values
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+// Parse a date with a pattern such as "DD.MM.YYYY"; null if it doesn't match
+// or names an impossible day
+export const parseDateParts = (value: string, format: string): DateParts | null => {
+  const { regex, tokens } = compileFormat(format);
+  const m = value.trim().match(regex);
+  if (!m) return null;
+  const parts: DateParts = { year: 0, month: 0, day: 0 };
+  tokens.forEach((token, i) => {
+    const n = Number(m[i + 1]);
+    if (token === "YYYY") parts.year = n;
+    else if (token === "YY") parts.year = n < 50 ? 2000 + n : 1900 + n;
+    else if (token[0] === "M") parts.month = n;
+    else parts.day = n;
+  });
+  const [hh, mi, ss] = m.slice(tokens.length + 1).map((v) => (v ? Number(v) : undefined));
+  if (hh !== undefined) Object.assign(parts, { hour: hh, minute: mi, second: ss || 0 });
+  return isValidParts(parts) ? parts : null;
+};
+
+// Rejects rollovers such as 31/02 and out-of-range times
+const isValidParts = (p: DateParts): boolean => {
+  const d = new Date(Date.UTC(p.year, p.month - 1, p.day));
+  return (
+    d.getUTCFullYear() === p.year &&
+    d.getUTCMonth() === p.month - 1 &&
+    d.getUTCDate() === p.day &&
+    (p.hour === undefined || (p.hour < 24 && (p.minute ?? 0) < 60 && (p.second ?? 0) < 60))
+  );
+};
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+// A date as written (wall clock) or, when it carries an offset, as an instant
+export type ParsedDate = { parts: DateParts } | { instant: Date };
+
+// With dayFirst set, slash/dash/dot dates that no configured format matched are
+// read in that order before falling back to the native parser (month first)
+export const parseDateValue = (
+  value: string,
+  formats: string[] = [],
+  dayFirst?: boolean
+): ParsedDate | null => {
+  const s = value.trim();
+  const ordered =
+    dayFirst === undefined
+      ? []
+      : dayFirst
+        ? [...DAY_FIRST_FORMATS, ...MONTH_FIRST_FORMATS]
+        : [...MONTH_FIRST_FORMATS, ...DAY_FIRST_FORMATS];
+  for (const format of [...formats, ...ordered]) {
+    const parts = parseDateParts(s, format);
+    if (parts) return { parts };
+  }
+  const m = s.match(ISO_DATE);
+  if (m && !m[7]) {
+    const [year, month, day, hour, minute, second] = m.slice(1, 7).map((v) =>
+      v === undefined ? undefined : Number(v)
+    );
+    const parts: DateParts = { year, month, day };
+    if (hour !== undefined) Object.assign(parts, { hour, minute, second: second ?? 0 });
+    return isValidParts(parts) ? { parts } : null;
+  }
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? null : { instant: d };
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall clock of an instant in an IANA zone, or in local time when none is given
+export const partsOfInstant = (d: Date, timeZone?: string): DateParts => {
+  if (!timeZone) {
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: d.getHours(),
+      minute: d.getMinutes(),
+      second: d.getSeconds(),
+    };
+  }
+  let fmt = zoneFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormatters.set(timeZone, fmt);
+  }
+  const get = (type: string) =>
+    Number(fmt!.formatToParts(d).find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+const utcMs = (p: DateParts) =>
+  Date.UTC(p.year, p.month - 1, p.day, p.hour ?? 0, p.minute ?? 0, p.second ?? 0);
+
+// The instant a wall clock names in `timeZone`. Without a zone, date-only
+// values are UTC midnight and values with a time are local, like the native parser.
+export const partsToInstant = (p: DateParts, timeZone?: string): Date => {
+  if (!timeZone) {
+    return p.hour === undefined
+      ? new Date(utcMs(p))
+      : new Date(p.year, p.month - 1, p.day, p.hour, p.minute ?? 0, p.second ?? 0);
+  }
+  // Correct by the zone offset, twice to settle across DST changes
+  const target = utcMs(p);
+  let ms = target;
+  for (let i = 0; i < 2; i++) {
+    ms += target - utcMs(partsOfInstant(new Date(ms), timeZone));
+  }
+  return new Date(ms);
+};
+
+// Pick the format that parses (nearly) every sampled value of a column
+export const inferDateFormat = (values: any[], dayFirst?: boolean): string | undefined => {
+  const sample = values
+    .filter((v) => typeof v === "string" && v.trim())
+    .slice(0, DATE_SAMPLE_SIZE) as string[];
+  if (!sample.length) return undefined;
+  const candidates = [
+    ...UNAMBIGUOUS_FORMATS,
+    ...(dayFirst
+      ? [...DAY_FIRST_FORMATS, ...MONTH_FIRST_FORMATS]
+      : [...MONTH_FIRST_FORMATS, ...DAY_FIRST_FORMATS]),
+  ];
+  let best: { format: string; matched: number } | undefined;
+  for (const format of candidates) {
+    const matched = sample.filter((v) => parseDateParts(v, format)).length;
+    if (!best || matched > best.matched) best = { format, matched };
+  }
+  return best && best.matched / sample.length >= DATE_MATCH_RATIO ? best.format : undefined;
+};
+
+// Symbols and ISO codes ("EUR 1.200", "1,200 USD")
+const CURRENCY_SYMBOLS = /[$€£¥₹₩₽₺₫₪¢]|^[A-Z]{3}\s*|\s*[A-Z]{3}$/g;
+
+// Number from a locale-formatted string: "1.234,56", "€1,200", "1 200,5",
+// "(12.00)". Without configured separators, the last of "." / "," is the
+// decimal mark unless that separator repeats or only groups thousands ("1,200").
+export const parseLocaleNumber = (value: any, locale?: ParseLocale): number => {
+  if (typeof value === "number") return value;
+  let s = String(value).trim();
+  if (/^[+-]?\d+(\.\d+)?e[+-]?\d+$/i.test(s)) return Number(s);
+  s = s.replace(CURRENCY_SYMBOLS, "").replace(/[\s']/g, "");
+  const negative = /^\(.*\)$/.test(s) || /^-/.test(s) || /-$/.test(s);
+  s = s.replace(/^[(+-]+|[)-]+$/g, "");
+  let decimal = locale?.decimalSeparator;
+  const thousands = locale?.thousandsSeparator;
+  if (thousands) s = s.split(thousands).join("");
+  if (!decimal) {
+    const lastDot = s.lastIndexOf(".");
+    const lastComma = s.lastIndexOf(",");
+    if (lastDot >= 0 && lastComma >= 0) decimal = lastDot > lastComma ? "." : ",";
+    else if (lastComma >= 0) decimal = /^\d{1,3}(,\d{3})+$/.test(s) ? "." : ",";
+    else decimal = s.indexOf(".") !== lastDot ? "," : ".";
+  }
+  s = s.split(decimal === "," ? "." : ",").join("");
+  if (decimal === ",") s = s.replace(",", ".");
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(s)) return NaN;
+  return negative ? -Number(s) : Number(s);
+};
+
+// Effective locale of each number/date field: field settings over the workbook
+// default, with a date format inferred from the mapped column when none is set
+export const resolveFieldLocales = (
+  fields: FieldConfig[],
+  rows: Record<string, any>[],
+  fieldMappings: FieldMapping[],
+  defaultLocale?: ParseLocale
+): FieldConfig[] =>
+  fields.map((field) => {
+    const locale: ParseLocale | undefined =
+      defaultLocale || field.locale ? { ...defaultLocale, ...field.locale } : undefined;
+    const isDate = field.type === "date" || field.type === "datetime";
+    if (!isDate || locale?.dateFormats?.length || locale?.inferDateFormat === false) {
+      return locale ? { ...field, locale } : field;
+    }
+    const source = fieldMappings.find((m) => m.target === field.key)?.source;
+    const format = source
+      ? inferDateFormat(
+          rows.slice(0, DATE_SAMPLE_SIZE * 5).map((r) => r[source]),
+          locale?.dayFirst
+        )
+      : undefined;
+    if (!format) return locale ? { ...field, locale } : field;
+    return { ...field, locale: { ...locale, dateFormats: [format] } };
+  });
@@ -0,0 +1,64 @@
+import { FileParser, ParserRegistry } from "../types";
+
+// Extensions handled by the built-in parsers (format is sniffed from content)
+export const BUILTIN_EXTENSIONS = [
+  ".csv",
+  ".tsv",
+  ".txt",
+  ".dat",
+  ".prn",
+  ".json",
+  ".ndjson",
+  ".jsonl",
+  ".xlsx",
+  ".xlsm",
+  ".xls",
+  ".ods",
+];
+
+const normalizeExtension = (ext: string) =>
+  (ext.startsWith(".") ? ext : `.${ext}`).toLowerCase();
+
+const matchesMimeType = (type: string, pattern: string) => {
+  const t = type.toLowerCase();
+  const p = pattern.toLowerCase();
+  return p.endsWith("/*") ? t.startsWith(p.slice(0, -1)) : t === p;
+};
+
+// First registered parser claiming the file by extension or MIME type
+export const resolveParser = (
+  file: File,
+  registry?: ParserRegistry
+): FileParser | null => {
+  const name = file.name.toLowerCase();
+  for (const parser of Object.values(registry || {})) {
+    if ((parser.extensions || []).some((ext) => name.endsWith(normalizeExtension(ext)))) {
+      return parser;
+    }
+  }
+  if (!file.type) return null;
+  for (const parser of Object.values(registry || {})) {
+    if ((parser.mimeTypes || []).some((m) => matchesMimeType(file.type, m))) {
+      return parser;
+    }
+  }
+  return null;
+};
+
+// Value for the file input's `accept` attribute
+export const buildAcceptList = (registry?: ParserRegistry): string => {
+  const entries = new Set(BUILTIN_EXTENSIONS);
+  for (const parser of Object.values(registry || {})) {
+    (parser.extensions || []).forEach((ext) => entries.add(normalizeExtension(ext)));
+    (parser.mimeTypes || []).forEach((m) => entries.add(m.toLowerCase()));
+  }
+  return Array.from(entries).join(",");
+};
+
+export const isAcceptedFile = (file: File, registry?: ParserRegistry): boolean => {
+  const name = file.name.toLowerCase();
+  return (
+    BUILTIN_EXTENSIONS.some((ext) => name.endsWith(ext)) ||
+    resolveParser(file, registry) !== null
+  );
+};
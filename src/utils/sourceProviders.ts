@@ -0,0 +1,27 @@
+import { SourceProvider } from "../types";
+
+// Last path segment of a URL, used as the imported file's name
+export const fileNameFromUrl = (url: string): string => {
+  try {
+    const segment = new URL(url).pathname.split("/").filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : "import";
+  } catch {
+    return "import";
+  }
+};
+
+// Providers may hand back a bare Blob; handleFile expects a named File
+export const toImportFile = (source: File | Blob, fallbackName: string): File =>
+  source instanceof File
+    ? source
+    : new File([source], fallbackName, { type: source.type });
+
+// Provider that always returns the same file; handy for demos and tests
+export const createStaticSourceProvider = (
+  label: string,
+  source: File | Blob,
+  fileName = "import"
+): SourceProvider => ({
+  label,
+  pick: async () => toImportFile(source, fileName),
+});
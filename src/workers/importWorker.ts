@@ -0,0 +1,42 @@
+// Web Worker entry for Excel decoding and row processing. Built to
+// dist/importWorker.js; apps opt in with `processing.createWorker`.
+import {
+  parseExcelBuffer,
+  processImportedDataWithMappings,
+  defaultTransforms,
+} from "../utils/dataProcessing";
+import type { ImportWorkerRequest, ImportWorkerResponse } from "../utils/importWorkerClient";
+
+// The parts of the worker global used here; the project compiles against the
+// "dom" lib, which doesn't declare DedicatedWorkerGlobalScope
+interface ImportWorkerScope {
+  postMessage: (msg: ImportWorkerResponse) => void;
+  onmessage: ((e: MessageEvent<ImportWorkerRequest>) => void) | null;
+}
+
+const ctx = self as unknown as ImportWorkerScope;
+const post = (msg: ImportWorkerResponse) => ctx.postMessage(msg);
+
+ctx.onmessage = (e: MessageEvent<ImportWorkerRequest>) => {
+  const req = e.data;
+  try {
+    if (req.type === "parseExcel") {
+      const data = parseExcelBuffer(req.buffer, req.fileName, req.options, (fraction) =>
+        post({ type: "progress", fraction })
+      );
+      post({ type: "result", result: data });
+    } else if (req.type === "process") {
+      const rows = processImportedDataWithMappings(
+        req.data,
+        req.fields,
+        req.pipeline,
+        defaultTransforms,
+        undefined,
+        (processed, total) => post({ type: "progress", fraction: total ? processed / total : 1 })
+      );
+      post({ type: "result", result: rows });
+    }
+  } catch (err: any) {
+    post({ type: "error", message: err?.message || String(err) });
+  }
+};